@@ -1,5 +1,11 @@
 import BetterSqlite3 from 'better-sqlite3';
-import { getDbPath } from '../tools/helpers.js';
+import { existsSync } from 'fs';
+import { getDbPath, parseDateRange } from '../tools/helpers.js';
+import { positionSQL } from '../tools/metrics.js';
+import type { SearchType } from '../types/index.js';
+import { archiveRows } from './archive.js';
+import { runMigrations } from './migrations.js';
+import { refreshRollups, rollupsReady } from './rollups.js';
 
 /**
  * Default target countries: US, UK, EU member states, Australia, Canada.
@@ -22,6 +28,76 @@ export interface RetentionPolicy {
   pruneNonTargetZeroClicks: boolean;
   /** ISO alpha-3 country codes considered "target". */
   targetCountries: string[];
+  /** Write rows to the monthly archive files before deleting them. Default: true */
+  archive: boolean;
+  /** Rows whose page contains any of these strings are never pruned. */
+  protectedPages: string[];
+  /** Rows whose query contains any of these strings are never pruned. */
+  protectedQueries: string[];
+  /** When false, syncs skip the automatic prune. prune_database still applies the policy. */
+  enabled: boolean;
+}
+
+export interface PropertyRetentionPolicy {
+  siteUrl: string;
+  policy: RetentionPolicy;
+  /** False when the property has no stored policy and uses the defaults. */
+  stored: boolean;
+  updatedAt: string | null;
+}
+
+/** A metric with and without the rows a policy would prune. */
+export interface BeforeAfter {
+  before: number | null;
+  after: number | null;
+}
+
+export interface RetentionImpactMonth {
+  month: string;
+  rows: BeforeAfter;
+  impressions: BeforeAfter;
+  uniqueQueries: BeforeAfter;
+  uniquePages: BeforeAfter;
+  /** Impression-weighted, as the dashboard reports it. */
+  avgPosition: BeforeAfter;
+}
+
+export interface OpportunityChange {
+  query: string;
+  impressions: BeforeAfter;
+  avgPosition: BeforeAfter;
+}
+
+export interface RetentionImpact {
+  siteUrl: string;
+  searchType: SearchType;
+  policy: RetentionPolicy;
+  cutoffDate: string;
+  /** Rows the policy would delete, across all search types. */
+  rowsPruned: number;
+  /** Months that would lose rows, oldest first. */
+  months: RetentionImpactMonth[];
+  /** Queries and pages every row of which would be pruned. */
+  disappearingQueries: { count: number; items: Array<{ query: string; rows: number; impressions: number; lastSeen: string }> };
+  disappearingPages: { count: number; items: Array<{ page: string; rows: number; impressions: number; lastSeen: string }> };
+  /** The opportunities insight over `dateRange`, with and without the pruned rows. */
+  opportunities: {
+    dateRange: { startDate: string; endDate: string };
+    before: number;
+    after: number;
+    lost: OpportunityChange[];
+    gained: OpportunityChange[];
+  };
+}
+
+export interface RetentionImpactOptions {
+  searchType?: SearchType;
+  /** Period for the opportunities comparison. Default: '12m'. */
+  dateRange?: string;
+  /** Opportunities threshold, as in the insight. Default: 100. */
+  minImpressions?: number;
+  /** Max items per list. Default: 50. */
+  limit?: number;
 }
 
 export interface PruneResult {
@@ -29,6 +105,9 @@ export interface PruneResult {
   rowsBefore: number;
   rowsDeleted: number;
   rowsAfter: number;
+  rowsArchived: number;
+  /** Archive months (YYYY-MM) that received rows. */
+  archiveMonths: string[];
   dbSizeBefore: number;
   dbSizeAfter: number;
   vacuumed: boolean;
@@ -40,6 +119,10 @@ const DEFAULT_POLICY: RetentionPolicy = {
   targetMinImpressions: 5,
   pruneNonTargetZeroClicks: true,
   targetCountries: DEFAULT_TARGET_COUNTRIES,
+  archive: true,
+  protectedPages: [],
+  protectedQueries: [],
+  enabled: true,
 };
 
 export class DataRetention {
@@ -53,13 +136,15 @@ export class DataRetention {
    * 
    * Recent data (last recentDays) is never touched.
    * Rows with clicks > 0 are never deleted regardless of age or country.
+   * Unless policy.archive is false, rows are written to the archive files
+   * first; if that fails nothing is deleted. Their clicks and impressions
+   * are kept per date, page and country in longtail_remainder.
    */
   static prune(
     siteUrl: string,
     policy: Partial<RetentionPolicy> = {},
     onProgress?: (message: string) => void
   ): PruneResult {
-    const p = { ...DEFAULT_POLICY, ...policy };
     const dbPath = getDbPath(siteUrl);
     const startTime = Date.now();
 
@@ -68,10 +153,12 @@ export class DataRetention {
       console.error(`[Retention] ${msg}`);
     };
 
-    const db = new BetterSqlite3(dbPath);
-    db.pragma('journal_mode = WAL');
+    const db = openExisting(siteUrl, false);
 
     try {
+      // Per-call overrides win over the property's stored policy
+      const p = { ...DEFAULT_POLICY, ...readStoredPolicy(db)?.policy, ...policy };
+
       // Measure before
       const pageCountBefore = (db.prepare('PRAGMA page_count').get() as any).page_count;
       const pageSize = (db.prepare('PRAGMA page_size').get() as any).page_size;
@@ -91,39 +178,100 @@ export class DataRetention {
       const lowerTargets = p.targetCountries.map(c => c.toLowerCase());
       const placeholders = lowerTargets.map(() => '?').join(',');
 
-      // Step 1: Delete old target-country rows with no clicks and low impressions
-      const deleteTargetSql = `
-        DELETE FROM search_analytics
-        WHERE date < ?
-          AND clicks = 0
-          AND impressions < ?
-          AND LOWER(country) IN (${placeholders})
-      `;
-      const targetParams = [cutoffDate, p.targetMinImpressions, ...lowerTargets];
-      const targetResult = db.prepare(deleteTargetSql).run(...targetParams);
-      log(`Target countries: deleted ${targetResult.changes.toLocaleString()} low-value rows`);
-
-      // Step 2: Delete old non-target-country rows with no clicks
-      let nonTargetDeleted = 0;
-      if (p.pruneNonTargetZeroClicks) {
-        const deleteNonTargetSql = `
-          DELETE FROM search_analytics
+      const keep = protectedClause(p);
+
+      // Every search_facts row the two delete steps below remove
+      const { where: pruneWhere, values: pruneParams } = pruneCriteria(p, cutoffDate);
+      const pruneRows = `id IN (SELECT id FROM search_facts WHERE ${pruneWhere})`;
+
+      // Rollups mirror search_analytics, so note which dates lose rows
+      const affected = rollupsReady(db) ? db.prepare(`
+        SELECT MIN(date) as min_date, MAX(date) as max_date FROM search_facts
+        WHERE ${pruneWhere}
+      `).get(...pruneParams) as any : null;
+
+      let archived = { rowsArchived: 0, months: [] as string[] };
+      if (p.archive) {
+        archived = archiveRows(db, dbPath, pruneRows, pruneParams);
+        if (archived.rowsArchived > 0) {
+          log(`Archived ${archived.rowsArchived.toLocaleString()} rows to ${archived.months.length} monthly file(s)`);
+        }
+      }
+
+      // Steps 1-3 share a transaction, so a row is never both in
+      // search_facts and in the remainder
+      const foldAndDelete = db.transaction(() => {
+        // Step 1: Add the rows about to go to the long-tail remainder, so
+        // summaries and trends keep their impressions
+        const remainderResult = db.prepare(`
+          INSERT INTO longtail_remainder (date, page, country, search_type, clicks, impressions, position, rows_merged)
+          SELECT date, page, country, search_type, SUM(clicks), SUM(impressions),
+            COALESCE(SUM(position * impressions) / NULLIF(SUM(impressions), 0), 0), COUNT(*)
+          FROM search_analytics
+          WHERE ${pruneRows}
+          GROUP BY date, page, country, search_type
+          ON CONFLICT(date, page, country, search_type) DO UPDATE SET
+            clicks = clicks + excluded.clicks,
+            impressions = impressions + excluded.impressions,
+            position = COALESCE((position * impressions + excluded.position * excluded.impressions)
+              / NULLIF(impressions + excluded.impressions, 0), 0),
+            rows_merged = rows_merged + excluded.rows_merged
+        `).run(...pruneParams);
+        if (remainderResult.changes > 0) {
+          log(`Long-tail remainder: updated ${remainderResult.changes.toLocaleString()} date/page/country buckets`);
+        }
+
+        // Step 2: Delete old target-country rows with no clicks and low impressions
+        const deleteTargetSql = `
+          DELETE FROM search_facts
           WHERE date < ?
             AND clicks = 0
-            AND LOWER(country) NOT IN (${placeholders})
+            AND impressions < ?
+            AND LOWER(country) IN (${placeholders})${keep.sql}
         `;
-        const nonTargetParams = [cutoffDate, ...lowerTargets];
-        const nonTargetResult = db.prepare(deleteNonTargetSql).run(...nonTargetParams);
-        nonTargetDeleted = nonTargetResult.changes;
-        log(`Non-target countries: deleted ${nonTargetDeleted.toLocaleString()} zero-click rows`);
-      }
-
-      const totalDeleted = (targetResult.changes as number) + nonTargetDeleted;
+        const targetParams = [cutoffDate, p.targetMinImpressions, ...lowerTargets, ...keep.values];
+        const targetResult = db.prepare(deleteTargetSql).run(...targetParams);
+        log(`Target countries: deleted ${targetResult.changes.toLocaleString()} low-value rows`);
+
+        // Step 3: Delete old non-target-country rows with no clicks
+        let nonTargetDeleted = 0;
+        if (p.pruneNonTargetZeroClicks) {
+          const deleteNonTargetSql = `
+            DELETE FROM search_facts
+            WHERE date < ?
+              AND clicks = 0
+              AND LOWER(country) NOT IN (${placeholders})${keep.sql}
+          `;
+          const nonTargetParams = [cutoffDate, ...lowerTargets, ...keep.values];
+          const nonTargetResult = db.prepare(deleteNonTargetSql).run(...nonTargetParams);
+          nonTargetDeleted = nonTargetResult.changes;
+          log(`Non-target countries: deleted ${nonTargetDeleted.toLocaleString()} zero-click rows`);
+        }
+
+        return (targetResult.changes as number) + nonTargetDeleted;
+      });
+      const totalDeleted = foldAndDelete();
       const rowsAfter = rowsBefore - totalDeleted;
 
       log(`Total deleted: ${totalDeleted.toLocaleString()} rows (${rowsAfter.toLocaleString()} remaining)`);
 
-      // Step 3: VACUUM to reclaim disk space
+      if (totalDeleted > 0 && affected?.min_date) {
+        refreshRollups(db, affected.min_date, affected.max_date);
+        log(`Rollups refreshed for ${affected.min_date} to ${affected.max_date}`);
+      }
+
+      // Drop query and page strings no remaining row refers to
+      if (totalDeleted > 0) {
+        const queriesDropped = db.prepare(
+          'DELETE FROM queries WHERE NOT EXISTS (SELECT 1 FROM search_facts WHERE query_id = queries.id)'
+        ).run().changes;
+        const pagesDropped = db.prepare(
+          'DELETE FROM pages WHERE NOT EXISTS (SELECT 1 FROM search_facts WHERE page_id = pages.id)'
+        ).run().changes;
+        log(`Dictionary: removed ${queriesDropped.toLocaleString()} unused queries, ${pagesDropped.toLocaleString()} unused pages`);
+      }
+
+      // Step 4: VACUUM to reclaim disk space
       let vacuumed = false;
       let dbSizeAfter = dbSizeBefore;
 
@@ -151,6 +299,8 @@ export class DataRetention {
         rowsBefore,
         rowsDeleted: totalDeleted,
         rowsAfter,
+        rowsArchived: archived.rowsArchived,
+        archiveMonths: archived.months,
         dbSizeBefore,
         dbSizeAfter,
         vacuumed,
@@ -177,13 +327,14 @@ export class DataRetention {
       targetLowValue: number;
       nonTargetZeroClick: number;
       recentProtected: number;
+      /** Old low-value rows kept because they match a protected page or query. */
+      patternProtected: number;
     };
   } {
-    const p = { ...DEFAULT_POLICY, ...policy };
-    const dbPath = getDbPath(siteUrl);
-    const db = new BetterSqlite3(dbPath, { readonly: true });
+    const db = openExisting(siteUrl, true);
 
     try {
+      const p = { ...DEFAULT_POLICY, ...readStoredPolicy(db)?.policy, ...policy };
       const totalRows = (db.prepare('SELECT COUNT(*) as cnt FROM search_analytics').get() as any).cnt;
 
       const cutoff = new Date();
@@ -192,24 +343,31 @@ export class DataRetention {
 
       const lowerTargets = p.targetCountries.map(c => c.toLowerCase());
       const placeholders = lowerTargets.map(() => '?').join(',');
+      const keep = protectedClause(p);
 
-      const targetLowValue = (db.prepare(`
-        SELECT COUNT(*) as cnt FROM search_analytics
+      const countTargetLowValue = (keepSql: string, keepValues: string[]): number => (db.prepare(`
+        SELECT COUNT(*) as cnt FROM search_facts
         WHERE date < ? AND clicks = 0 AND impressions < ?
-          AND LOWER(country) IN (${placeholders})
-      `).get(cutoffDate, p.targetMinImpressions, ...lowerTargets) as any).cnt;
+          AND LOWER(country) IN (${placeholders})${keepSql}
+      `).get(cutoffDate, p.targetMinImpressions, ...lowerTargets, ...keepValues) as any).cnt;
 
-      const nonTargetZeroClick = (db.prepare(`
-        SELECT COUNT(*) as cnt FROM search_analytics
+      const countNonTargetZeroClick = (keepSql: string, keepValues: string[]): number => (db.prepare(`
+        SELECT COUNT(*) as cnt FROM search_facts
         WHERE date < ? AND clicks = 0
-          AND LOWER(country) NOT IN (${placeholders})
-      `).get(cutoffDate, ...lowerTargets) as any).cnt;
+          AND LOWER(country) NOT IN (${placeholders})${keepSql}
+      `).get(cutoffDate, ...lowerTargets, ...keepValues) as any).cnt;
+
+      const targetLowValue = countTargetLowValue(keep.sql, keep.values);
+      const nonTargetZeroClick = countNonTargetZeroClick(keep.sql, keep.values);
 
       const recentProtected = (db.prepare(`
         SELECT COUNT(*) as cnt FROM search_analytics WHERE date >= ?
       `).get(cutoffDate) as any).cnt;
 
       const wouldDelete = targetLowValue + (p.pruneNonTargetZeroClicks ? nonTargetZeroClick : 0);
+      const patternProtected = keep.sql
+        ? countTargetLowValue('', []) + (p.pruneNonTargetZeroClicks ? countNonTargetZeroClick('', []) : 0) - wouldDelete
+        : 0;
 
       return {
         siteUrl,
@@ -221,10 +379,288 @@ export class DataRetention {
           targetLowValue,
           nonTargetZeroClick,
           recentProtected,
+          patternProtected,
         },
       };
     } finally {
       db.close();
     }
   }
+
+  /**
+   * Simulate a prune: the month-by-month metrics that query- and
+   * page-level views would report before and after, the queries and pages
+   * that would vanish from them entirely, and how the opportunities insight
+   * would change. Nothing is deleted. Property totals, summaries and trends
+   * are not affected, since the totals tables and the long-tail remainder
+   * keep every impression.
+   */
+  static simulate(
+    siteUrl: string,
+    policy: Partial<RetentionPolicy> = {},
+    options: RetentionImpactOptions = {}
+  ): RetentionImpact {
+    const { searchType = 'web', dateRange = '12m', minImpressions = 100, limit = 50 } = options;
+    const db = openExisting(siteUrl, true);
+
+    try {
+      const p = { ...DEFAULT_POLICY, ...readStoredPolicy(db)?.policy, ...policy };
+      const cutoff = new Date();
+      cutoff.setDate(cutoff.getDate() - p.recentDays);
+      const cutoffDate = cutoff.toISOString().slice(0, 10);
+
+      // The rows the policy would delete, in a temp table on this connection only
+      const { where, values } = pruneCriteria(p, cutoffDate);
+      db.exec('CREATE TEMP TABLE retention_sim (id INTEGER PRIMARY KEY)');
+      const rowsPruned = db.prepare(`INSERT INTO temp.retention_sim SELECT id FROM search_facts WHERE ${where}`).run(...values).changes;
+
+      const months = (db.prepare(`
+        SELECT substr(f.date, 1, 7) as month,
+          COUNT(*) as rows_before,
+          COUNT(*) - COUNT(s.id) as rows_after,
+          SUM(f.impressions) as impressions_before,
+          SUM(CASE WHEN s.id IS NULL THEN f.impressions ELSE 0 END) as impressions_after,
+          COUNT(DISTINCT f.query_id) as queries_before,
+          COUNT(DISTINCT CASE WHEN s.id IS NULL THEN f.query_id END) as queries_after,
+          COUNT(DISTINCT f.page_id) as pages_before,
+          COUNT(DISTINCT CASE WHEN s.id IS NULL THEN f.page_id END) as pages_after,
+          ROUND(SUM(f.position * f.impressions) / NULLIF(SUM(f.impressions), 0), 1) as position_before,
+          ROUND(SUM(CASE WHEN s.id IS NULL THEN f.position * f.impressions ELSE 0 END)
+            / NULLIF(SUM(CASE WHEN s.id IS NULL THEN f.impressions ELSE 0 END), 0), 1) as position_after
+        FROM search_facts f
+        LEFT JOIN temp.retention_sim s ON s.id = f.id
+        WHERE f.search_type = ? AND f.date < ?
+        GROUP BY month
+        HAVING rows_after < rows_before
+        ORDER BY month
+      `).all(searchType, cutoffDate) as any[]).map(row => ({
+        month: row.month,
+        rows: { before: row.rows_before, after: row.rows_after },
+        impressions: { before: row.impressions_before, after: row.impressions_after },
+        uniqueQueries: { before: row.queries_before, after: row.queries_after },
+        uniquePages: { before: row.pages_before, after: row.pages_after },
+        avgPosition: { before: row.position_before, after: row.position_after },
+      }));
+
+      const disappearing = (dimension: 'query' | 'page') => {
+        const table = dimension === 'query' ? 'queries' : 'pages';
+        const rows = db.prepare(`
+          SELECT d.${dimension} as value, COUNT(*) as rows, SUM(f.impressions) as impressions,
+            MAX(f.date) as last_seen, COUNT(*) OVER () as total
+          FROM search_facts f
+          JOIN ${table} d ON d.id = f.${dimension}_id
+          LEFT JOIN temp.retention_sim s ON s.id = f.id
+          WHERE f.search_type = ?
+          GROUP BY f.${dimension}_id
+          HAVING COUNT(s.id) = COUNT(*)
+          ORDER BY impressions DESC
+          LIMIT ?
+        `).all(searchType, limit) as any[];
+        return {
+          count: rows[0]?.total ?? 0,
+          items: rows.map(row => ({ [dimension]: row.value, rows: row.rows, impressions: row.impressions, lastSeen: row.last_seen })),
+        };
+      };
+
+      // Same criteria as the opportunities insight
+      const { startDate, endDate } = parseDateRange(dateRange);
+      const opportunities = (withoutPruned: boolean) => new Map((db.prepare(`
+        SELECT query, SUM(impressions) as impressions, ${positionSQL()} as avg_position
+        FROM search_analytics
+        WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND search_type = ?
+          ${withoutPruned ? 'AND id NOT IN (SELECT id FROM temp.retention_sim)' : ''}
+        GROUP BY query
+        HAVING avg_position BETWEEN 4 AND 20
+          AND impressions > ?
+        ORDER BY impressions DESC
+      `).all(startDate, endDate, searchType, minImpressions) as any[]).map(row => [row.query as string, row]));
+      const before = opportunities(false);
+      const after = opportunities(true);
+      const change = (query: string): OpportunityChange => ({
+        query,
+        impressions: { before: before.get(query)?.impressions ?? null, after: after.get(query)?.impressions ?? null },
+        avgPosition: { before: before.get(query)?.avg_position ?? null, after: after.get(query)?.avg_position ?? null },
+      });
+
+      return {
+        siteUrl,
+        searchType,
+        policy: p,
+        cutoffDate,
+        rowsPruned,
+        months,
+        disappearingQueries: disappearing('query') as RetentionImpact['disappearingQueries'],
+        disappearingPages: disappearing('page') as RetentionImpact['disappearingPages'],
+        opportunities: {
+          dateRange: { startDate, endDate },
+          before: before.size,
+          after: after.size,
+          lost: [...before.keys()].filter(q => !after.has(q)).slice(0, limit).map(change),
+          gained: [...after.keys()].filter(q => !before.has(q)).slice(0, limit).map(change),
+        },
+      };
+    } finally {
+      db.close();
+    }
+  }
+
+  /** The property's stored policy merged over the defaults. */
+  static getPolicy(siteUrl: string): PropertyRetentionPolicy {
+    const db = openExisting(siteUrl, true);
+    try {
+      return propertyPolicy(siteUrl, readStoredPolicy(db));
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Change the property's stored policy. Settings not given keep their
+   * current value; `reset` drops the stored policy first, so anything not
+   * given goes back to the default.
+   */
+  static setPolicy(siteUrl: string, changes: Partial<RetentionPolicy>, reset = false): PropertyRetentionPolicy {
+    const db = openExisting(siteUrl, false);
+    try {
+      const current = reset ? null : readStoredPolicy(db);
+      const p: RetentionPolicy = { ...DEFAULT_POLICY, ...current?.policy, ...changes };
+      if (!Number.isInteger(p.recentDays) || p.recentDays < 0) {
+        throw new Error(`recentDays must be a whole number of days, got ${p.recentDays}.`);
+      }
+      if (p.targetMinImpressions < 0) {
+        throw new Error(`targetMinImpressions can't be negative, got ${p.targetMinImpressions}.`);
+      }
+      const targetCountries = p.targetCountries.map(c => c.trim().toLowerCase());
+      const invalid = targetCountries.filter(c => !/^[a-z]{3}$/.test(c));
+      if (invalid.length > 0) {
+        throw new Error(`Invalid target countries: ${invalid.join(', ')}. Use ISO 3166-1 alpha-3 codes, e.g. "usa".`);
+      }
+      const patterns = (list: string[]) => [...new Set(list.map(s => s.trim()).filter(Boolean))];
+
+      if (reset) db.prepare('DELETE FROM retention_policy').run();
+      if (!reset || Object.keys(changes).length > 0) {
+        db.prepare(`
+          INSERT INTO retention_policy (
+            id, enabled, recent_days, target_min_impressions, prune_non_target_zero_clicks,
+            target_countries, protected_pages, protected_queries, archive, updated_at
+          ) VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+          ON CONFLICT(id) DO UPDATE SET
+            enabled = excluded.enabled,
+            recent_days = excluded.recent_days,
+            target_min_impressions = excluded.target_min_impressions,
+            prune_non_target_zero_clicks = excluded.prune_non_target_zero_clicks,
+            target_countries = excluded.target_countries,
+            protected_pages = excluded.protected_pages,
+            protected_queries = excluded.protected_queries,
+            archive = excluded.archive,
+            updated_at = excluded.updated_at
+        `).run(
+          p.enabled ? 1 : 0,
+          p.recentDays,
+          p.targetMinImpressions,
+          p.pruneNonTargetZeroClicks ? 1 : 0,
+          JSON.stringify([...new Set(targetCountries)]),
+          JSON.stringify(patterns(p.protectedPages)),
+          JSON.stringify(patterns(p.protectedQueries)),
+          p.archive ? 1 : 0
+        );
+      }
+
+      return propertyPolicy(siteUrl, readStoredPolicy(db));
+    } finally {
+      db.close();
+    }
+  }
+}
+
+/**
+ * Open a property's database once its schema is current, so retention
+ * works on files no other tool has upgraded yet. Read-only callers get a
+ * read-only connection after the migrations have run.
+ */
+function openExisting(siteUrl: string, readonly: boolean): BetterSqlite3.Database {
+  const dbPath = getDbPath(siteUrl);
+  if (!existsSync(dbPath)) {
+    throw new Error(`No database found for "${siteUrl}". Run sync_gsc_data first.`);
+  }
+  const db = new BetterSqlite3(dbPath);
+  try {
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    runMigrations(db, dbPath);
+  } catch (err) {
+    db.close();
+    throw err;
+  }
+  if (!readonly) return db;
+  db.close();
+  return new BetterSqlite3(dbPath, { readonly: true });
+}
+
+type StoredPolicy = { policy: RetentionPolicy; updatedAt: string };
+
+function propertyPolicy(siteUrl: string, stored: StoredPolicy | null): PropertyRetentionPolicy {
+  return {
+    siteUrl,
+    policy: { ...DEFAULT_POLICY, ...stored?.policy },
+    stored: stored !== null,
+    updatedAt: stored?.updatedAt ?? null,
+  };
+}
+
+/** Null when no policy is stored, including databases not yet migrated to have the table. */
+function readStoredPolicy(db: BetterSqlite3.Database): StoredPolicy | null {
+  const exists = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'retention_policy'`).get();
+  if (!exists) return null;
+  const row = db.prepare('SELECT * FROM retention_policy WHERE id = 1').get() as any;
+  if (!row) return null;
+  return {
+    policy: {
+      enabled: row.enabled === 1,
+      recentDays: row.recent_days,
+      targetMinImpressions: row.target_min_impressions,
+      pruneNonTargetZeroClicks: row.prune_non_target_zero_clicks === 1,
+      targetCountries: JSON.parse(row.target_countries),
+      protectedPages: JSON.parse(row.protected_pages),
+      protectedQueries: JSON.parse(row.protected_queries),
+      archive: row.archive === 1,
+    },
+    updatedAt: row.updated_at,
+  };
+}
+
+/** WHERE clause on search_facts matching every row the policy prunes. */
+function pruneCriteria(p: RetentionPolicy, cutoffDate: string): { where: string; values: any[] } {
+  const lowerTargets = p.targetCountries.map(c => c.toLowerCase());
+  const placeholders = lowerTargets.map(() => '?').join(',');
+  const keep = protectedClause(p);
+  return {
+    where: `date < ? AND clicks = 0
+      AND ((impressions < ? AND LOWER(country) IN (${placeholders}))
+        ${p.pruneNonTargetZeroClicks ? `OR LOWER(country) NOT IN (${placeholders})` : ''})${keep.sql}`,
+    values: [
+      cutoffDate, p.targetMinImpressions, ...lowerTargets,
+      ...(p.pruneNonTargetZeroClicks ? lowerTargets : []),
+      ...keep.values,
+    ],
+  };
+}
+
+/**
+ * " AND ..." clause on search_facts that spares rows whose query or page
+ * contains a protected string. instr() rather than LIKE, so "_" and "%"
+ * in URLs match literally; both sides are lowercased as LIKE would.
+ */
+function protectedClause(p: RetentionPolicy): { sql: string; values: string[] } {
+  let sql = '';
+  const values: string[] = [];
+  if (p.protectedQueries.length > 0) {
+    sql += ` AND (query_id IS NULL OR query_id NOT IN (SELECT id FROM queries WHERE ${p.protectedQueries.map(() => 'instr(LOWER(query), ?) > 0').join(' OR ')}))`;
+    values.push(...p.protectedQueries.map(s => s.toLowerCase()));
+  }
+  if (p.protectedPages.length > 0) {
+    sql += ` AND (page_id IS NULL OR page_id NOT IN (SELECT id FROM pages WHERE ${p.protectedPages.map(() => 'instr(LOWER(page), ?) > 0').join(' OR ')}))`;
+    values.push(...p.protectedPages.map(s => s.toLowerCase()));
+  }
+  return { sql, values };
 }
@@ -1,9 +1,45 @@
 import BetterSqlite3 from 'better-sqlite3';
-import type { SearchAnalyticsRow, SyncLogEntry } from '../types/index.js';
+import { hasColumn, runMigrations, type MigrationResult } from './migrations.js';
+import { rebuildRollups, refreshRollups, rollupsReady } from './rollups.js';
+import { addDays } from '../tools/helpers.js';
+import type {
+  ArchivedRow,
+  GscSitemap,
+  SearchAnalyticsRow,
+  SitemapSnapshot,
+  SearchAppearanceRow,
+  SearchType,
+  SyncLogEntry,
+  TotalsDimension,
+  TotalsRow,
+  UrlInspectionRecord,
+  UrlInspectionResult,
+} from '../types/index.js';
+
+/** Table holding the totals for each dimension. */
+export const TOTALS_TABLES: Record<TotalsDimension, string> = {
+  date: 'totals_daily',
+  page: 'totals_page',
+  device: 'totals_device',
+  country: 'totals_country',
+};
+
+/**
+ * Dates being re-fetched. Provisional rows in the range are removed before
+ * the new rows go in, so keys that GSC dropped while finalising the data
+ * don't linger.
+ */
+export interface ReconcileRange {
+  startDate: string;
+  endDate: string;
+  searchType: SearchType;
+}
 
 export class Database {
   private db: BetterSqlite3.Database;
   private insertStmt: BetterSqlite3.Statement | null = null;
+  private dictionaryStmts = new Map<string, { find: BetterSqlite3.Statement; add: BetterSqlite3.Statement }>();
+  private migrationResult!: MigrationResult;
 
   constructor(dbPath: string) {
     this.db = new BetterSqlite3(dbPath);
@@ -12,58 +48,11 @@ export class Database {
     this.db.pragma('cache_size = -65536');     // 64MB cache (default is ~2MB)
     this.db.pragma('temp_store = MEMORY');     // temp tables in RAM
     this.db.pragma('mmap_size = 4294967296');  // 4GB mmap for large DBs
-    this.initializeTables();
-  }
-
-  private initializeTables(): void {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS property_meta (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        site_url TEXT UNIQUE NOT NULL,
-        permission_level TEXT,
-        last_synced_at TEXT,
-        created_at TEXT DEFAULT (datetime('now'))
-      );
-    `);
-
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS search_analytics (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        date TEXT NOT NULL,
-        query TEXT,
-        page TEXT,
-        device TEXT,
-        country TEXT,
-        search_appearance TEXT,
-        clicks INTEGER NOT NULL DEFAULT 0,
-        impressions INTEGER NOT NULL DEFAULT 0,
-        ctr REAL NOT NULL DEFAULT 0,
-        position REAL NOT NULL DEFAULT 0,
-        created_at TEXT DEFAULT (datetime('now'))
-      );
-    `);
+    this.initializeTables(dbPath);
+  }
 
-    this.db.exec(`
-      -- Primary uniqueness constraint (also serves as composite index for date-first lookups)
-      CREATE UNIQUE INDEX IF NOT EXISTS idx_sa_unique
-        ON search_analytics(date, query, page, device, country);
-
-      -- Single-column indexes for standalone filtering
-      CREATE INDEX IF NOT EXISTS idx_sa_date ON search_analytics(date);
-      CREATE INDEX IF NOT EXISTS idx_sa_query ON search_analytics(query);
-      CREATE INDEX IF NOT EXISTS idx_sa_page ON search_analytics(page);
-      CREATE INDEX IF NOT EXISTS idx_sa_clicks ON search_analytics(clicks DESC);
-      CREATE INDEX IF NOT EXISTS idx_sa_impressions ON search_analytics(impressions DESC);
-
-      -- Composite indexes for dashboard query patterns
-      CREATE INDEX IF NOT EXISTS idx_sa_date_query ON search_analytics(date, query, clicks, impressions, position);
-      CREATE INDEX IF NOT EXISTS idx_sa_date_page ON search_analytics(date, page, clicks, impressions, position);
-      CREATE INDEX IF NOT EXISTS idx_sa_date_country ON search_analytics(date, country, clicks, impressions);
-      CREATE INDEX IF NOT EXISTS idx_sa_query_date ON search_analytics(query, date);
-
-      -- Covering index for summary aggregations
-      CREATE INDEX IF NOT EXISTS idx_sa_date_metrics ON search_analytics(date, clicks, impressions, ctr, position);
-    `);
+  private initializeTables(dbPath: string): void {
+    this.migrationResult = runMigrations(this.db, dbPath);
 
     // Update query planner statistics only when needed
     // sqlite_stat1 may not exist if ANALYZE has never run, so check safely
@@ -71,27 +60,16 @@ export class Database {
       `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'sqlite_stat1' LIMIT 1`
     ).get();
     const hasStats = statExists && this.db.prepare(
-      `SELECT 1 FROM sqlite_stat1 WHERE tbl = 'search_analytics' AND idx = 'idx_sa_date_metrics' LIMIT 1`
+      `SELECT 1 FROM sqlite_stat1 WHERE tbl = 'search_facts' AND idx = 'idx_sf_date_metrics' LIMIT 1`
     ).get();
     if (!hasStats) {
       this.db.exec('ANALYZE;');
     }
+  }
 
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS sync_log (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        sync_type TEXT NOT NULL,
-        dimensions TEXT NOT NULL,
-        date_from TEXT,
-        date_to TEXT,
-        rows_fetched INTEGER DEFAULT 0,
-        rows_inserted INTEGER DEFAULT 0,
-        status TEXT DEFAULT 'running',
-        error_message TEXT,
-        started_at TEXT DEFAULT (datetime('now')),
-        completed_at TEXT
-      );
-    `);
+  /** Schema migrations applied when this connection was opened. */
+  getMigrationResult(): MigrationResult {
+    return this.migrationResult;
   }
 
   // --- Property Meta ---
@@ -122,38 +100,102 @@ export class Database {
     };
   }
 
-  getLastSyncDate(): string | null {
+  getLastSyncDate(searchType: SearchType = 'web'): string | null {
     const row = this.db.prepare(`
-      SELECT MAX(date) as max_date FROM search_analytics
-    `).get() as any;
+      SELECT MAX(date) as max_date FROM search_analytics WHERE search_type = ?
+    `).get(searchType) as any;
     return row?.max_date ?? null;
   }
 
+  /** Dates whose query-level rows are still provisional, oldest first. */
+  getFreshDates(searchType: SearchType = 'web'): string[] {
+    const rows = this.db.prepare(`
+      SELECT DISTINCT date FROM search_analytics
+      WHERE data_state = 'fresh' AND search_type = ?
+      ORDER BY date ASC
+    `).all(searchType) as Array<{ date: string }>;
+    return rows.map(r => r.date);
+  }
+
+  /**
+   * Dates from `from` to `to` that a completed search analytics sync
+   * covered. A covered date with no rows had no traffic; an uncovered one
+   * was never fetched. sync_log records no search type, so every run counts.
+   */
+  getSyncedDates(from: string, to: string): Set<string> {
+    const logs = this.db.prepare(`
+      SELECT date_from, date_to FROM sync_log
+      WHERE sync_type = 'search_analytics' AND status = 'completed'
+        AND date_from IS NOT NULL AND date_to IS NOT NULL
+        AND date_from <= ? AND date_to >= ?
+    `).all(to, from) as Array<{ date_from: string; date_to: string }>;
+    const dates = new Set<string>();
+    for (const log of logs) {
+      const end = log.date_to < to ? log.date_to : to;
+      for (let date = log.date_from > from ? log.date_from : from; date <= end; date = addDays(date, 1)) {
+        dates.add(date);
+      }
+    }
+    return dates;
+  }
+
   // --- Search Analytics ---
 
+  // search_analytics is a view; rows are written to search_facts with
+  // query and page replaced by their dictionary ids.
   private getInsertStmt(): BetterSqlite3.Statement {
     if (!this.insertStmt) {
       this.insertStmt = this.db.prepare(`
-        INSERT OR REPLACE INTO search_analytics
-          (date, query, page, device, country, search_appearance, clicks, impressions, ctr, position)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT OR REPLACE INTO search_facts
+          (date, query_id, page_id, device, country, search_appearance, search_type, data_state, clicks, impressions, ctr, position)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
     }
     return this.insertStmt;
   }
 
-  insertSearchAnalyticsBatch(rows: SearchAnalyticsRow[]): number {
+  /**
+   * Dictionary id for a query or page, adding the string if it is new.
+   * `seen` caches ids for one batch only: pruning can remove unused
+   * entries between batches.
+   */
+  private dictionaryId(table: 'queries' | 'pages', value: string | null, seen: Map<string, number>): number | null {
+    if (value === null) return null;
+    const cached = seen.get(value);
+    if (cached !== undefined) return cached;
+
+    let stmts = this.dictionaryStmts.get(table);
+    if (!stmts) {
+      const column = table === 'queries' ? 'query' : 'page';
+      stmts = {
+        find: this.db.prepare(`SELECT id FROM ${table} WHERE ${column} = ?`),
+        add: this.db.prepare(`INSERT INTO ${table} (${column}) VALUES (?)`),
+      };
+      this.dictionaryStmts.set(table, stmts);
+    }
+    const row = stmts.find.get(value) as { id: number } | undefined;
+    const id = row ? row.id : Number(stmts.add.run(value).lastInsertRowid);
+    seen.set(value, id);
+    return id;
+  }
+
+  insertSearchAnalyticsBatch(rows: SearchAnalyticsRow[], reconcile?: ReconcileRange): number {
     let inserted = 0;
     const stmt = this.getInsertStmt();
     const transaction = this.db.transaction((rows: SearchAnalyticsRow[]) => {
+      if (reconcile) this.deleteFreshRows('search_facts', reconcile);
+      const queryIds = new Map<string, number>();
+      const pageIds = new Map<string, number>();
       for (const row of rows) {
         stmt.run(
           row.date,
-          row.query,
-          row.page,
+          this.dictionaryId('queries', row.query, queryIds),
+          this.dictionaryId('pages', row.page, pageIds),
           row.device,
           row.country,
           row.searchAppearance,
+          row.searchType,
+          row.dataState,
           row.clicks,
           row.impressions,
           row.ctr,
@@ -166,6 +208,94 @@ export class Database {
     return inserted;
   }
 
+  insertSearchAppearanceBatch(rows: SearchAppearanceRow[], reconcile?: ReconcileRange): number {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO search_appearance_analytics
+        (date, search_appearance, search_type, data_state, clicks, impressions, ctr, position)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const transaction = this.db.transaction((rows: SearchAppearanceRow[]) => {
+      if (reconcile) this.deleteFreshRows('search_appearance_analytics', reconcile);
+      for (const row of rows) {
+        stmt.run(
+          row.date,
+          row.searchAppearance,
+          row.searchType,
+          row.dataState,
+          row.clicks,
+          row.impressions,
+          row.ctr,
+          row.position
+        );
+      }
+    });
+    transaction(rows);
+    return rows.length;
+  }
+
+  // --- Totals ---
+
+  insertTotalsBatch(dimension: TotalsDimension, rows: TotalsRow[], reconcile?: ReconcileRange): number {
+    const table = TOTALS_TABLES[dimension];
+    const stmt = dimension === 'date'
+      ? this.db.prepare(`
+          INSERT OR REPLACE INTO ${table} (date, search_type, data_state, clicks, impressions, ctr, position)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `)
+      : this.db.prepare(`
+          INSERT OR REPLACE INTO ${table} (date, ${dimension}, search_type, data_state, clicks, impressions, ctr, position)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+    const transaction = this.db.transaction((rows: TotalsRow[]) => {
+      if (reconcile) this.deleteFreshRows(table, reconcile);
+      for (const row of rows) {
+        const metrics = [row.searchType, row.dataState, row.clicks, row.impressions, row.ctr, row.position];
+        if (dimension === 'date') {
+          stmt.run(row.date, ...metrics);
+        } else {
+          stmt.run(row.date, row.key, ...metrics);
+        }
+      }
+    });
+    transaction(rows);
+    return rows.length;
+  }
+
+  private deleteFreshRows(table: string, range: ReconcileRange): void {
+    this.db.prepare(`
+      DELETE FROM ${table}
+      WHERE data_state = 'fresh' AND search_type = ? AND date BETWEEN ? AND ?
+    `).run(range.searchType, range.startDate, range.endDate);
+  }
+
+  /**
+   * Earliest date covered by the totals tables for a search type.
+   * Data synced before totals existed has no totals rows.
+   */
+  getTotalsStartDate(searchType: SearchType = 'web'): string | null {
+    const row = this.db.prepare(
+      'SELECT MIN(date) as min_date FROM totals_daily WHERE search_type = ?'
+    ).get(searchType) as any;
+    return row?.min_date ?? null;
+  }
+
+  /** True once a prune has folded rows into longtail_remainder. */
+  hasLongTailRemainder(): boolean {
+    return !!this.db.prepare('SELECT 1 FROM longtail_remainder LIMIT 1').get();
+  }
+
+  /**
+   * Forget the pruned remainder for dates that were just fetched again:
+   * the re-fetched rows include whatever was pruned, and the next prune
+   * folds the long tail back in. Only dates the API returned rows for are
+   * cleared, so dates past GSC's 16-month window keep their remainder.
+   */
+  clearLongTailRemainder(dates: string[], searchType: SearchType): void {
+    this.db.prepare(
+      'DELETE FROM longtail_remainder WHERE date IN (SELECT value FROM json_each(?)) AND search_type = ?'
+    ).run(JSON.stringify(dates), searchType);
+  }
+
   getRowCount(): number {
     const result = this.db.prepare('SELECT COUNT(*) as count FROM search_analytics').get() as any;
     return result.count;
@@ -183,8 +313,8 @@ export class Database {
 
   createSyncLog(entry: Omit<SyncLogEntry, 'id' | 'startedAt' | 'completedAt'>): number {
     const result = this.db.prepare(`
-      INSERT INTO sync_log (sync_type, dimensions, date_from, date_to, rows_fetched, rows_inserted, status, error_message)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO sync_log (sync_type, dimensions, date_from, date_to, rows_fetched, rows_inserted, status, error_message, job_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       entry.syncType,
       entry.dimensions,
@@ -193,7 +323,8 @@ export class Database {
       entry.rowsFetched,
       entry.rowsInserted,
       entry.status,
-      entry.errorMessage
+      entry.errorMessage,
+      entry.jobId ?? null
     );
     return Number(result.lastInsertRowid);
   }
@@ -206,7 +337,7 @@ export class Database {
     if (updates.rowsInserted !== undefined) { fields.push('rows_inserted = ?'); values.push(updates.rowsInserted); }
     if (updates.status !== undefined) { fields.push('status = ?'); values.push(updates.status); }
     if (updates.errorMessage !== undefined) { fields.push('error_message = ?'); values.push(updates.errorMessage); }
-    if (updates.status === 'completed' || updates.status === 'error') {
+    if (updates.status && ['completed', 'error', 'failed', 'partial', 'interrupted'].includes(updates.status)) {
       fields.push("completed_at = datetime('now')");
     }
 
@@ -215,6 +346,228 @@ export class Database {
     this.db.prepare(`UPDATE sync_log SET ${fields.join(', ')} WHERE id = ?`).run(...values);
   }
 
+  /**
+   * Close out 'running' log entries whose job is no longer running in any
+   * process. Returns the number of entries marked interrupted.
+   *
+   * Opens the file directly rather than through the constructor, so a
+   * database waiting on a schema upgrade isn't migrated as a side effect.
+   */
+  static markOrphanedSyncLogs(dbPath: string, liveJobIds: string[]): number {
+    const db = new BetterSqlite3(dbPath);
+    try {
+      db.pragma('busy_timeout = 5000');
+      const hasLog = db.prepare(
+        `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'sync_log'`
+      ).get();
+      if (!hasLog) return 0;
+      // Before v6 entries carry no job id, so none can belong to a live job
+      const byJob = liveJobIds.length > 0 && hasColumn(db, 'sync_log', 'job_id');
+      const placeholders = liveJobIds.map(() => '?').join(', ');
+      const result = db.prepare(`
+        UPDATE sync_log
+        SET status = 'interrupted', completed_at = datetime('now'),
+          error_message = COALESCE(error_message, 'Sync process stopped before this entry finished')
+        WHERE status = 'running'
+          ${byJob ? `AND (job_id IS NULL OR job_id NOT IN (${placeholders}))` : ''}
+      `).run(...(byJob ? liveJobIds : []));
+      return result.changes;
+    } finally {
+      db.close();
+    }
+  }
+
+  // --- Rollups ---
+
+  /** Recompute rollups for periods overlapping from..to, once they are built. */
+  refreshRollups(from: string, to: string): void {
+    if (rollupsReady(this.db)) refreshRollups(this.db, from, to);
+  }
+
+  rebuildRollups(): void {
+    rebuildRollups(this.db);
+  }
+
+  rollupsReady(): boolean {
+    return rollupsReady(this.db);
+  }
+
+  // --- URL Inspection ---
+
+  insertUrlInspection(page: string, result: UrlInspectionResult): void {
+    this.db.prepare(`
+      INSERT INTO url_inspection (
+        page, verdict, coverage_state, indexing_state, robots_txt_state, page_fetch_state,
+        last_crawl_time, crawled_as, google_canonical, user_canonical,
+        mobile_usability_verdict, mobile_usability_issues, rich_results_verdict, inspection_link
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      page,
+      result.verdict,
+      result.coverageState,
+      result.indexingState,
+      result.robotsTxtState,
+      result.pageFetchState,
+      result.lastCrawlTime,
+      result.crawledAs,
+      result.googleCanonical,
+      result.userCanonical,
+      result.mobileUsabilityVerdict,
+      JSON.stringify(result.mobileUsabilityIssues),
+      result.richResultsVerdict,
+      result.inspectionLink
+    );
+  }
+
+  /** Inspections stored in the last 24 hours, for the daily quota. */
+  countRecentInspections(): number {
+    const row = this.db.prepare(
+      `SELECT COUNT(*) as count FROM url_inspection WHERE inspected_at > datetime('now', '-1 day')`
+    ).get() as any;
+    return row.count;
+  }
+
+  /** Most recent inspection of each page; pages never inspected are absent. */
+  getLatestInspections(pages: string[]): Map<string, UrlInspectionRecord> {
+    const latest = new Map<string, UrlInspectionRecord>();
+    if (pages.length === 0) return latest;
+
+    const rows = this.db.prepare(`
+      SELECT * FROM url_inspection
+      WHERE id IN (
+        SELECT MAX(id) FROM url_inspection
+        WHERE page IN (SELECT value FROM json_each(?))
+        GROUP BY page
+      )
+    `).all(JSON.stringify(pages)) as any[];
+
+    for (const row of rows) {
+      latest.set(row.page, {
+        page: row.page,
+        inspectedAt: row.inspected_at,
+        verdict: row.verdict,
+        coverageState: row.coverage_state,
+        indexingState: row.indexing_state,
+        robotsTxtState: row.robots_txt_state,
+        pageFetchState: row.page_fetch_state,
+        lastCrawlTime: row.last_crawl_time,
+        crawledAs: row.crawled_as,
+        googleCanonical: row.google_canonical,
+        userCanonical: row.user_canonical,
+        mobileUsabilityVerdict: row.mobile_usability_verdict,
+        mobileUsabilityIssues: JSON.parse(row.mobile_usability_issues ?? '[]'),
+        richResultsVerdict: row.rich_results_verdict,
+        inspectionLink: row.inspection_link,
+      });
+    }
+    return latest;
+  }
+
+  // --- Sitemaps ---
+
+  /** Append one snapshot per sitemap, all with the same capture time. */
+  insertSitemapSnapshot(sitemaps: GscSitemap[]): number {
+    const capturedAt = this.db.prepare(`SELECT datetime('now') as now`).get() as any;
+    const stmt = this.db.prepare(`
+      INSERT INTO sitemap_snapshots (
+        captured_at, path, type, is_index, is_pending, last_submitted, last_downloaded,
+        warnings, errors, submitted, indexed, contents
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertAll = this.db.transaction((items: GscSitemap[]) => {
+      for (const sitemap of items) {
+        stmt.run(
+          capturedAt.now,
+          sitemap.path,
+          sitemap.type,
+          sitemap.isSitemapsIndex ? 1 : 0,
+          sitemap.isPending ? 1 : 0,
+          sitemap.lastSubmitted,
+          sitemap.lastDownloaded,
+          sitemap.warnings,
+          sitemap.errors,
+          sitemap.contents.reduce((sum, c) => sum + c.submitted, 0),
+          sitemap.contents.reduce((sum, c) => sum + c.indexed, 0),
+          JSON.stringify(sitemap.contents)
+        );
+      }
+      return items.length;
+    });
+    return insertAll(sitemaps);
+  }
+
+  /** Snapshots captured on or after `since` (YYYY-MM-DD), oldest first. */
+  getSitemapSnapshots(since: string): SitemapSnapshot[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM sitemap_snapshots WHERE captured_at >= ? ORDER BY path, captured_at, id
+    `).all(since) as any[];
+    return rows.map(row => ({
+      capturedAt: row.captured_at,
+      path: row.path,
+      type: row.type,
+      isSitemapsIndex: row.is_index === 1,
+      isPending: row.is_pending === 1,
+      lastSubmitted: row.last_submitted,
+      lastDownloaded: row.last_downloaded,
+      warnings: row.warnings,
+      errors: row.errors,
+      submitted: row.submitted,
+      indexed: row.indexed,
+      contents: JSON.parse(row.contents ?? '[]'),
+    }));
+  }
+
+  // --- Restored Archive ---
+
+  /** Load archived rows into search_analytics_archive; a row already there is replaced. */
+  insertArchivedRows(rows: ArchivedRow[]): number {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO search_analytics_archive (
+        id, date, query, page, device, country, search_appearance, search_type, data_state,
+        clicks, impressions, ctr, position
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertAll = this.db.transaction((items: ArchivedRow[]) => {
+      for (const row of items) {
+        stmt.run(
+          row.id,
+          row.date,
+          row.query,
+          row.page,
+          row.device,
+          row.country,
+          row.searchAppearance,
+          row.searchType,
+          row.dataState,
+          row.clicks,
+          row.impressions,
+          row.ctr,
+          row.position
+        );
+      }
+    });
+    insertAll(rows);
+    return rows.length;
+  }
+
+  /**
+   * Shadow search_analytics_archive with an empty temporary table of the
+   * same shape on this connection, so rows loaded for one query are seen by
+   * nothing else and are gone when the connection closes. Temporary tables
+   * are kept on disk here, since archived months can be large.
+   */
+  useTemporaryArchive(): void {
+    const { sql } = this.db.prepare(
+      `SELECT sql FROM main.sqlite_master WHERE type = 'table' AND name = 'search_analytics_archive'`
+    ).get() as { sql: string };
+    this.db.pragma('temp_store = FILE');
+    this.db.exec(sql.replace(/^CREATE TABLE/i, 'CREATE TEMP TABLE'));
+  }
+
+  clearArchivedRows(): number {
+    return this.db.prepare('DELETE FROM search_analytics_archive').run().changes;
+  }
+
   // --- Raw Query (read-only) ---
 
   executeReadOnlyQuery(sql: string, params: any[] = [], maxRows: number = 10000): any[] {
@@ -234,6 +587,11 @@ export class Database {
     return this.db.prepare(sql).all(...params);
   }
 
+  /** Rows one at a time, for results too large to hold at once. */
+  iterate(sql: string, params: any[] = []): IterableIterator<any> {
+    return this.db.prepare(sql).iterate(...params) as IterableIterator<any>;
+  }
+
   queryOne(sql: string, params: any[] = []): any {
     return this.db.prepare(sql).get(...params);
   }
@@ -1,47 +1,129 @@
 import { google } from 'googleapis';
-import type { GscProperty, GscApiRow, FetchOptions } from '../types/index.js';
+import { RateLimiter, inspectionRateLimitConfig, sleep } from './RateLimiter.js';
+import { applyOAuthToken, createOAuthClient } from './oauth.js';
+import type { GscCredentials } from './credentials.js';
+import type { GscProperty, GscApiRow, FetchOptions, GscSitemap, UrlInspectionResult } from '../types/index.js';
 
 const ROW_LIMIT = 25000; // GSC API max per request
 const DEFAULT_DIMENSIONS = ['query', 'page', 'date', 'device', 'country'];
 const MAX_RETRIES = 3;
 const RETRYABLE_STATUS_CODES = [429, 500, 502, 503];
 
-async function withRetry<T>(fn: () => Promise<T>, retries = MAX_RETRIES): Promise<T> {
+/**
+ * Run one API call through the shared limiter, retrying 429s and transient
+ * 5xx errors. A 429 hands its delay (Retry-After, else exponential backoff)
+ * to the limiter, which pauses every caller rather than just this one.
+ * Aborting `signal` ends any wait, in the limiter or between retries, by
+ * rejecting with the abort reason.
+ */
+async function withRetry<T>(
+  limiter: RateLimiter,
+  siteUrl: string | null,
+  fn: () => Promise<T>,
+  onWait?: (waitMs: number) => void,
+  retries = MAX_RETRIES,
+  signal?: AbortSignal
+): Promise<T> {
   for (let attempt = 0; attempt <= retries; attempt++) {
+    const waited = await limiter.acquire(siteUrl, signal);
+    if (waited > 0) onWait?.(waited);
     try {
-      return await fn();
+      const result = await fn();
+      limiter.release('ok');
+      return result;
     } catch (err: any) {
       const status = err?.code || err?.response?.status || err?.status;
       const isRetryable = RETRYABLE_STATUS_CODES.includes(Number(status));
-      if (!isRetryable || attempt === retries) throw err;
-      const delay = Math.min(1000 * Math.pow(2, attempt), 30000);
+      const delay = Number(status) === 429
+        ? retryAfterMs(err) ?? backoffMs(attempt)
+        : backoffMs(attempt);
+      limiter.release(Number(status) === 429 ? 'throttled' : 'error', delay);
+      if (!isRetryable || attempt === retries || signal?.aborted) throw err;
       console.error(`[GSC] Retryable error (${status}), attempt ${attempt + 1}/${retries}, waiting ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
+      // 429 waits happen in the limiter on the next acquire
+      if (Number(status) !== 429) {
+        await sleep(delay, signal);
+      }
     }
   }
   throw new Error('Unreachable');
 }
 
+function backoffMs(attempt: number): number {
+  return Math.min(1000 * Math.pow(2, attempt), 30000);
+}
+
+/** Retry-After as milliseconds, from either delay-seconds or an HTTP date. */
+function retryAfterMs(err: any): number | null {
+  const headers = err?.response?.headers;
+  const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  if (value === undefined || value === null || value === '') return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Limiters a client draws on. Clients calling on the same Cloud project's
+ * quota must share them.
+ */
+export interface ClientLimiters {
+  /** Search Analytics, sitemaps and property listing. */
+  api: RateLimiter;
+  /** URL Inspection, which Google meters separately. */
+  inspection: RateLimiter;
+}
+
+export function createLimiters(): ClientLimiters {
+  return { api: new RateLimiter(), inspection: new RateLimiter(inspectionRateLimitConfig()) };
+}
+
 export interface PageResult {
   rows: GscApiRow[];
   totalSoFar: number;
   startRow: number;
+  /** First date whose data is still provisional (null when everything returned is final). */
+  firstIncompleteDate: string | null;
 }
 
 export class GscClient {
   private auth: any;
   private searchconsole: any;
+  private signedIn: boolean;
 
-  constructor(credentialsPath: string) {
-    this.auth = new google.auth.GoogleAuth({
-      keyFile: credentialsPath,
-      scopes: ['https://www.googleapis.com/auth/webmasters.readonly'],
-    });
+  /** A plain path is a service account key file. */
+  constructor(credentials: string | GscCredentials, private limiters: ClientLimiters = createLimiters()) {
+    const creds: GscCredentials = typeof credentials === 'string'
+      ? { type: 'service_account', keyFile: credentials }
+      : credentials;
+
+    if (creds.type === 'oauth') {
+      this.auth = createOAuthClient(creds.clientFile, creds.tokenFile);
+      this.signedIn = creds.tokenFile !== null;
+    } else {
+      this.auth = new google.auth.GoogleAuth({
+        keyFile: creds.keyFile,
+        scopes: ['https://www.googleapis.com/auth/webmasters.readonly'],
+      });
+      this.signedIn = true;
+    }
     this.searchconsole = google.searchconsole({ version: 'v1', auth: this.auth });
   }
 
+  isSignedIn(): boolean {
+    return this.signedIn;
+  }
+
+  /** Finish signing in an OAuth client created before the user logged in. */
+  signIn(tokenFile: string): void {
+    applyOAuthToken(this.auth, tokenFile);
+    this.signedIn = true;
+  }
+
   async listProperties(): Promise<GscProperty[]> {
-    const response: any = await withRetry(() => this.searchconsole.sites.list());
+    this.assertSignedIn();
+    const response: any = await withRetry(this.limiters.api, null, () => this.searchconsole.sites.list());
     const sites = response.data.siteEntry || [];
     return sites.map((site: any) => ({
       siteUrl: site.siteUrl,
@@ -57,13 +139,16 @@ export class GscClient {
    * accumulating everything in memory.
    *
    * Returns the total number of rows fetched across all pages.
+   * onWait reports time spent waiting on the shared rate limiter.
    */
   async fetchSearchAnalytics(
     siteUrl: string,
     options: FetchOptions,
     signal?: AbortSignal,
-    onPage?: (page: PageResult) => void
+    onPage?: (page: PageResult) => void,
+    onWait?: (waitMs: number) => void
   ): Promise<number> {
+    this.assertSignedIn();
     const dimensions = options.dimensions || DEFAULT_DIMENSIONS;
     let totalRows = 0;
     let startRow = 0;
@@ -74,18 +159,28 @@ export class GscClient {
         break;
       }
 
-      const response: any = await withRetry(() => this.searchconsole.searchanalytics.query({
-        siteUrl,
-        requestBody: {
-          startDate: options.startDate,
-          endDate: options.endDate,
-          dimensions,
-          rowLimit: options.rowLimit || ROW_LIMIT,
-          startRow,
-          dataState: options.dataState || 'all',
-          ...(options.searchType ? { type: options.searchType } : {}),
-        },
-      }));
+      let response: any;
+      try {
+        response = await withRetry(this.limiters.api, siteUrl, () => this.searchconsole.searchanalytics.query({
+          siteUrl,
+          requestBody: {
+            startDate: options.startDate,
+            endDate: options.endDate,
+            dimensions,
+            rowLimit: options.rowLimit || ROW_LIMIT,
+            startRow,
+            dataState: options.dataState || 'all',
+            ...(options.searchType ? { type: options.searchType } : {}),
+          },
+        }), onWait, MAX_RETRIES, signal);
+      } catch (err) {
+        // Cancelled while waiting on the limiter or a retry
+        if (signal?.aborted) {
+          console.error(`[GSC] Sync aborted after ${totalRows} rows`);
+          break;
+        }
+        throw err;
+      }
 
       const rows: GscApiRow[] = (response.data.rows || []).map((row: any) => ({
         keys: row.keys,
@@ -99,7 +194,8 @@ export class GscClient {
 
       // Fire callback so caller can commit this page immediately
       if (onPage && rows.length > 0) {
-        onPage({ rows, totalSoFar: totalRows, startRow });
+        const firstIncompleteDate = response.data.metadata?.firstIncompleteDate ?? null;
+        onPage({ rows, totalSoFar: totalRows, startRow, firstIncompleteDate });
       }
 
       if (rows.length < (options.rowLimit || ROW_LIMIT)) {
@@ -112,4 +208,65 @@ export class GscClient {
 
     return totalRows;
   }
+
+  /** Sitemaps submitted for a property, with submitted and indexed counts. */
+  async listSitemaps(siteUrl: string): Promise<GscSitemap[]> {
+    this.assertSignedIn();
+    const response: any = await withRetry(this.limiters.api, siteUrl, () => this.searchconsole.sitemaps.list({ siteUrl }));
+    const sitemaps = response.data.sitemap || [];
+    // int64 counts arrive as strings
+    return sitemaps.map((sitemap: any) => ({
+      path: sitemap.path,
+      type: sitemap.type ?? null,
+      isSitemapsIndex: Boolean(sitemap.isSitemapsIndex),
+      isPending: Boolean(sitemap.isPending),
+      lastSubmitted: sitemap.lastSubmitted ?? null,
+      lastDownloaded: sitemap.lastDownloaded ?? null,
+      warnings: Number(sitemap.warnings ?? 0),
+      errors: Number(sitemap.errors ?? 0),
+      contents: (sitemap.contents || []).map((content: any) => ({
+        type: content.type,
+        submitted: Number(content.submitted ?? 0),
+        indexed: Number(content.indexed ?? 0),
+      })),
+    }));
+  }
+
+  /**
+   * Inspect one URL with the URL Inspection API. Google allows 2,000
+   * inspections per property per day; callers track that budget. Calls go
+   * through their own limiter without retries, so a spent quota neither
+   * stalls syncs nor waits out backoff before the caller sees the 429.
+   */
+  async inspectUrl(siteUrl: string, inspectionUrl: string): Promise<UrlInspectionResult> {
+    this.assertSignedIn();
+    const response: any = await withRetry(this.limiters.inspection, siteUrl, () => this.searchconsole.urlInspection.index.inspect({
+      requestBody: { inspectionUrl, siteUrl },
+    }), undefined, 0);
+
+    const result = response.data.inspectionResult ?? {};
+    const index = result.indexStatusResult ?? {};
+    const mobile = result.mobileUsabilityResult ?? {};
+    return {
+      verdict: index.verdict ?? null,
+      coverageState: index.coverageState ?? null,
+      indexingState: index.indexingState ?? null,
+      robotsTxtState: index.robotsTxtState ?? null,
+      pageFetchState: index.pageFetchState ?? null,
+      lastCrawlTime: index.lastCrawlTime ?? null,
+      crawledAs: index.crawledAs ?? null,
+      googleCanonical: index.googleCanonical ?? null,
+      userCanonical: index.userCanonical ?? null,
+      mobileUsabilityVerdict: mobile.verdict ?? null,
+      mobileUsabilityIssues: (mobile.issues ?? []).map((issue: any) => issue.message ?? issue.issueType),
+      richResultsVerdict: result.richResultsResult?.verdict ?? null,
+      inspectionLink: result.inspectionResultLink ?? null,
+    };
+  }
+
+  private assertSignedIn(): void {
+    if (!this.signedIn) {
+      throw new Error('No Google account is signed in. Run auth_status with login=true, or `better-search-console auth`.');
+    }
+  }
 }
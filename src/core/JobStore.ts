@@ -0,0 +1,320 @@
+import BetterSqlite3 from 'better-sqlite3';
+import { join } from 'path';
+import { getDataDir } from '../tools/helpers.js';
+import type { SyncJobResult, SyncJobStatus, SyncPropertyArgs } from './SyncManager.js';
+
+/** Not a .db file, so property listings never mistake it for a site. */
+const JOBS_DB_FILENAME = 'sync-jobs.sqlite';
+const MAX_STORED_JOBS = 200;
+
+export type PropertyJobStatus = 'queued' | 'syncing' | 'interrupted' | SyncJobResult['status'];
+
+export interface StoredJob {
+  id: string;
+  status: SyncJobStatus;
+  totalProperties: number;
+  completedProperties: number;
+  rowsFetched: number;
+  estimatedTotalRows: number | null;
+  apiCallsMade: number;
+  startedAt: number;
+  error?: string;
+}
+
+export interface StoredProperty {
+  siteUrl: string;
+  args: SyncPropertyArgs;
+  status: PropertyJobStatus;
+  result: SyncJobResult | null;
+}
+
+export interface StoredChunk {
+  from: string;
+  to: string;
+  completed: boolean;
+  rowsInserted: number;
+}
+
+/**
+ * Central record of sync jobs, shared by every process using the data
+ * directory. Jobs, per-property progress and per-chunk completion are
+ * written as a sync runs, so status survives restarts and an interrupted
+ * job can resume from the chunks it never finished.
+ */
+export class JobStore {
+  private db: BetterSqlite3.Database;
+
+  constructor(dbPath: string = join(getDataDir(), JOBS_DB_FILENAME)) {
+    this.db = new BetterSqlite3(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sync_jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        pid INTEGER NOT NULL,
+        total_properties INTEGER NOT NULL DEFAULT 0,
+        completed_properties INTEGER NOT NULL DEFAULT 0,
+        rows_fetched INTEGER NOT NULL DEFAULT 0,
+        estimated_total_rows INTEGER,
+        api_calls_made INTEGER NOT NULL DEFAULT 0,
+        started_at INTEGER NOT NULL,
+        updated_at TEXT DEFAULT (datetime('now')),
+        error TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS sync_job_properties (
+        job_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        site_url TEXT NOT NULL,
+        args TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'queued',
+        result TEXT,
+        PRIMARY KEY (job_id, site_url)
+      );
+
+      CREATE TABLE IF NOT EXISTS sync_job_chunks (
+        job_id TEXT NOT NULL,
+        site_url TEXT NOT NULL,
+        date_from TEXT NOT NULL,
+        date_to TEXT NOT NULL,
+        rows_inserted INTEGER NOT NULL DEFAULT 0,
+        completed_at TEXT,
+        PRIMARY KEY (job_id, site_url, date_from)
+      );
+
+      CREATE TABLE IF NOT EXISTS scheduler_lock (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        pid INTEGER NOT NULL,
+        acquired_at TEXT DEFAULT (datetime('now'))
+      );
+    `);
+  }
+
+  // --- Jobs ---
+
+  createJob(job: StoredJob, properties: SyncPropertyArgs[]): void {
+    const insertProperty = this.db.prepare(`
+      INSERT INTO sync_job_properties (job_id, position, site_url, args) VALUES (?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      this.saveJob(job);
+      properties.forEach((prop, i) => insertProperty.run(job.id, i, prop.siteUrl, JSON.stringify(prop)));
+    })();
+    this.prune();
+  }
+
+  /** Write the job's counters and status; also claims it for this process. */
+  saveJob(job: StoredJob): void {
+    this.db.prepare(`
+      INSERT INTO sync_jobs
+        (id, status, pid, total_properties, completed_properties, rows_fetched,
+         estimated_total_rows, api_calls_made, started_at, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        status = excluded.status,
+        pid = excluded.pid,
+        completed_properties = excluded.completed_properties,
+        rows_fetched = excluded.rows_fetched,
+        estimated_total_rows = excluded.estimated_total_rows,
+        api_calls_made = excluded.api_calls_made,
+        error = excluded.error,
+        updated_at = datetime('now')
+    `).run(
+      job.id,
+      job.status,
+      process.pid,
+      job.totalProperties,
+      job.completedProperties,
+      job.rowsFetched,
+      job.estimatedTotalRows,
+      job.apiCallsMade,
+      job.startedAt,
+      job.error ?? null
+    );
+  }
+
+  getJob(jobId: string): StoredJob | null {
+    const row = this.db.prepare('SELECT * FROM sync_jobs WHERE id = ?').get(jobId) as any;
+    return row ? toStoredJob(row) : null;
+  }
+
+  /** Most recent jobs first. */
+  listJobs(limit: number): StoredJob[] {
+    const rows = this.db.prepare(
+      'SELECT * FROM sync_jobs ORDER BY started_at DESC LIMIT ?'
+    ).all(limit) as any[];
+    return rows.map(toStoredJob);
+  }
+
+  // --- Properties ---
+
+  getProperties(jobId: string): StoredProperty[] {
+    const rows = this.db.prepare(
+      'SELECT site_url, args, status, result FROM sync_job_properties WHERE job_id = ? ORDER BY position'
+    ).all(jobId) as any[];
+    return rows.map(row => ({
+      siteUrl: row.site_url,
+      args: JSON.parse(row.args),
+      status: row.status,
+      result: row.result ? JSON.parse(row.result) : null,
+    }));
+  }
+
+  setPropertyStatus(jobId: string, siteUrl: string, status: PropertyJobStatus): void {
+    this.db.prepare(
+      'UPDATE sync_job_properties SET status = ? WHERE job_id = ? AND site_url = ?'
+    ).run(status, jobId, siteUrl);
+  }
+
+  savePropertyResult(jobId: string, result: SyncJobResult): void {
+    this.db.prepare(
+      'UPDATE sync_job_properties SET status = ?, result = ? WHERE job_id = ? AND site_url = ?'
+    ).run(result.status, JSON.stringify(result), jobId, result.siteUrl);
+  }
+
+  // --- Chunks ---
+
+  saveChunks(jobId: string, siteUrl: string, chunks: Array<{ from: string; to: string }>): void {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO sync_job_chunks (job_id, site_url, date_from, date_to) VALUES (?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      for (const chunk of chunks) stmt.run(jobId, siteUrl, chunk.from, chunk.to);
+    })();
+  }
+
+  getChunks(jobId: string, siteUrl: string): StoredChunk[] {
+    const rows = this.db.prepare(`
+      SELECT date_from, date_to, rows_inserted, completed_at FROM sync_job_chunks
+      WHERE job_id = ? AND site_url = ?
+      ORDER BY date_from
+    `).all(jobId, siteUrl) as any[];
+    return rows.map(row => ({
+      from: row.date_from,
+      to: row.date_to,
+      completed: row.completed_at !== null,
+      rowsInserted: row.rows_inserted,
+    }));
+  }
+
+  completeChunk(jobId: string, siteUrl: string, from: string, rowsInserted: number): void {
+    this.db.prepare(`
+      UPDATE sync_job_chunks SET completed_at = datetime('now'), rows_inserted = ?
+      WHERE job_id = ? AND site_url = ? AND date_from = ?
+    `).run(rowsInserted, jobId, siteUrl, from);
+  }
+
+  countPendingChunks(jobId: string): number {
+    const row = this.db.prepare(
+      'SELECT COUNT(*) as count FROM sync_job_chunks WHERE job_id = ? AND completed_at IS NULL'
+    ).get(jobId) as any;
+    return row.count;
+  }
+
+  // --- Recovery ---
+
+  /**
+   * Mark queued or syncing jobs whose owning process has exited as
+   * interrupted. Returns the ids of jobs still owned by a live process.
+   * Runs before this process starts any job, so a job recorded under our
+   * own pid belongs to an earlier process whose pid was reused.
+   */
+  recoverInterrupted(): { interrupted: string[]; live: string[] } {
+    const active = this.db.prepare(
+      `SELECT id, pid FROM sync_jobs WHERE status IN ('queued', 'syncing')`
+    ).all() as Array<{ id: string; pid: number }>;
+
+    const interrupted: string[] = [];
+    const live: string[] = [];
+    for (const job of active) {
+      (job.pid !== process.pid && isProcessAlive(job.pid) ? live : interrupted).push(job.id);
+    }
+
+    if (interrupted.length > 0) {
+      const markJob = this.db.prepare(`
+        UPDATE sync_jobs SET status = 'interrupted', updated_at = datetime('now'),
+          error = 'The process running this job stopped before it finished. Use resume_sync to fetch the remaining chunks.'
+        WHERE id = ?
+      `);
+      const markProperties = this.db.prepare(`
+        UPDATE sync_job_properties SET status = 'interrupted'
+        WHERE job_id = ? AND status IN ('queued', 'syncing')
+      `);
+      this.db.transaction(() => {
+        for (const id of interrupted) {
+          markJob.run(id);
+          markProperties.run(id);
+        }
+      })();
+    }
+
+    return { interrupted, live };
+  }
+
+  // --- Scheduler lock ---
+
+  /**
+   * Claim the scheduler for this process, so the MCP server and a daemon
+   * sharing the data directory never both run scheduled syncs. Returns null
+   * once this process holds the lock, or the pid of the live process that does.
+   */
+  acquireSchedulerLock(): number | null {
+    const claim = this.db.transaction((): number | null => {
+      const row = this.db.prepare('SELECT pid FROM scheduler_lock WHERE id = 1').get() as { pid: number } | undefined;
+      if (row && row.pid !== process.pid && isProcessAlive(row.pid)) return row.pid;
+      this.db.prepare(`
+        INSERT INTO scheduler_lock (id, pid) VALUES (1, ?)
+        ON CONFLICT(id) DO UPDATE SET pid = excluded.pid, acquired_at = datetime('now')
+        WHERE scheduler_lock.pid != excluded.pid
+      `).run(process.pid);
+      return null;
+    });
+    return claim.immediate();
+  }
+
+  releaseSchedulerLock(): void {
+    this.db.prepare('DELETE FROM scheduler_lock WHERE id = 1 AND pid = ?').run(process.pid);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private prune(): void {
+    this.db.exec(`
+      DELETE FROM sync_jobs WHERE id IN (
+        SELECT id FROM sync_jobs
+        WHERE status NOT IN ('queued', 'syncing')
+        ORDER BY started_at DESC
+        LIMIT -1 OFFSET ${MAX_STORED_JOBS}
+      );
+      DELETE FROM sync_job_properties WHERE job_id NOT IN (SELECT id FROM sync_jobs);
+      DELETE FROM sync_job_chunks WHERE job_id NOT IN (SELECT id FROM sync_jobs);
+    `);
+  }
+}
+
+function toStoredJob(row: any): StoredJob {
+  return {
+    id: row.id,
+    status: row.status,
+    totalProperties: row.total_properties,
+    completedProperties: row.completed_properties,
+    rowsFetched: row.rows_fetched,
+    estimatedTotalRows: row.estimated_total_rows,
+    apiCallsMade: row.api_calls_made,
+    startedAt: row.started_at,
+    error: row.error ?? undefined,
+  };
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err: any) {
+    // EPERM: the process exists but belongs to another user
+    return err?.code === 'EPERM';
+  }
+}
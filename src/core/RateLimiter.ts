@@ -0,0 +1,234 @@
+/**
+ * Shared request budget for the Search Console API.
+ *
+ * Every call takes a token from the project bucket and, for site-scoped
+ * calls, from that site's bucket, and holds one of a limited number of
+ * concurrency slots. A 429 pauses all callers (for Retry-After when the API
+ * sends one) and halves the concurrency limit; it climbs back one slot at a
+ * time after a run of successful calls.
+ */
+
+// GSC allows 1,200 queries per minute per site and per user; with a
+// service account the per-user limit is effectively the project budget.
+const DEFAULT_PROJECT_QPM = 1200;
+const DEFAULT_SITE_QPM = 1200;
+// CHUNK_CONCURRENCY × PROPERTY_CONCURRENCY in SyncManager
+const DEFAULT_MAX_CONCURRENCY = 6;
+const SUCCESSES_PER_CONCURRENCY_STEP = 20;
+// URL Inspection is metered apart from the rest of the API: 600 queries
+// per minute per site and 15,000 per project (plus 2,000 per site per day,
+// which inspect_urls tracks itself)
+const INSPECTION_PROJECT_QPM = 15000;
+const INSPECTION_SITE_QPM = 600;
+
+export interface RateLimitConfig {
+  projectQpm: number;
+  siteQpm: number;
+  maxConcurrency: number;
+}
+
+export interface ThrottleStatus {
+  /** Concurrent requests currently allowed (drops after 429s). */
+  concurrency: number;
+  maxConcurrency: number;
+  inFlight: number;
+  /** Total time callers have spent waiting for a slot or token. */
+  totalWaitMs: number;
+  /** Set while every request is paused after a 429. */
+  pausedUntil: string | null;
+}
+
+/** Budgets from BSC_PROJECT_QPM, BSC_SITE_QPM and BSC_MAX_CONCURRENCY. */
+export function rateLimitConfigFromEnv(): RateLimitConfig {
+  return {
+    projectQpm: positiveEnv('BSC_PROJECT_QPM', DEFAULT_PROJECT_QPM),
+    siteQpm: positiveEnv('BSC_SITE_QPM', DEFAULT_SITE_QPM),
+    maxConcurrency: positiveEnv('BSC_MAX_CONCURRENCY', DEFAULT_MAX_CONCURRENCY),
+  };
+}
+
+/** Budgets for URL Inspection calls, kept off the main API limiter. */
+export function inspectionRateLimitConfig(): RateLimitConfig {
+  return {
+    projectQpm: INSPECTION_PROJECT_QPM,
+    siteQpm: INSPECTION_SITE_QPM,
+    maxConcurrency: positiveEnv('BSC_MAX_CONCURRENCY', DEFAULT_MAX_CONCURRENCY),
+  };
+}
+
+class TokenBucket {
+  private capacity: number;
+  private tokens: number;
+  private perMs: number;
+  private updatedAt = Date.now();
+
+  constructor(queriesPerMinute: number) {
+    // Allow a burst of up to one second's worth of queries
+    this.capacity = Math.max(1, queriesPerMinute / 60);
+    this.tokens = this.capacity;
+    this.perMs = queriesPerMinute / 60_000;
+  }
+
+  /** Milliseconds until a token is available; 0 if one is available now. */
+  msUntilAvailable(now: number): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.perMs);
+  }
+
+  take(now: number): void {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.perMs);
+    this.updatedAt = now;
+  }
+}
+
+export class RateLimiter {
+  private project: TokenBucket;
+  private sites = new Map<string, TokenBucket>();
+  private concurrency: number;
+  private inFlight = 0;
+  private slotWaiters: Array<() => void> = [];
+  private pausedUntil = 0;
+  private successStreak = 0;
+  private totalWaitMs = 0;
+
+  constructor(private config: RateLimitConfig = rateLimitConfigFromEnv()) {
+    this.project = new TokenBucket(config.projectQpm);
+    this.concurrency = config.maxConcurrency;
+  }
+
+  /**
+   * Wait for a concurrency slot and a token from each bucket. Every
+   * acquire must be paired with a release. Returns the time spent waiting.
+   * Aborting `signal` rejects the wait and gives up the place in line; no
+   * release is needed then.
+   */
+  async acquire(siteUrl: string | null, signal?: AbortSignal): Promise<number> {
+    const start = Date.now();
+    signal?.throwIfAborted();
+
+    while (this.inFlight >= this.concurrency) {
+      await this.waitForSlot(signal);
+    }
+    this.inFlight++;
+
+    const site = siteUrl ? this.siteBucket(siteUrl) : null;
+    try {
+      while (true) {
+        const now = Date.now();
+        const wait = Math.max(
+          this.pausedUntil - now,
+          this.project.msUntilAvailable(now),
+          site ? site.msUntilAvailable(now) : 0
+        );
+        if (wait <= 0) break;
+        await sleep(wait, signal);
+      }
+    } catch (err) {
+      // Cancelled while paused or waiting for a token: pass the slot on unused
+      this.inFlight--;
+      this.wakeNextWaiter();
+      throw err;
+    }
+    const now = Date.now();
+    this.project.take(now);
+    site?.take(now);
+
+    const waited = now - start;
+    this.totalWaitMs += waited;
+    return waited;
+  }
+
+  /**
+   * Give the slot back. `throttledForMs` marks a 429: everything pauses
+   * that long and the concurrency limit halves.
+   */
+  release(outcome: 'ok' | 'error' | 'throttled', throttledForMs = 0): void {
+    this.inFlight--;
+
+    if (outcome === 'throttled') {
+      this.successStreak = 0;
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + throttledForMs);
+      const reduced = Math.max(1, Math.floor(this.concurrency / 2));
+      if (reduced < this.concurrency) {
+        console.error(`[GSC] Rate limited; concurrency ${this.concurrency} -> ${reduced}, pausing ${throttledForMs}ms`);
+        this.concurrency = reduced;
+      }
+    } else if (outcome === 'ok') {
+      this.successStreak++;
+      if (this.successStreak >= SUCCESSES_PER_CONCURRENCY_STEP && this.concurrency < this.config.maxConcurrency) {
+        this.concurrency++;
+        this.successStreak = 0;
+      }
+    }
+
+    this.wakeNextWaiter();
+  }
+
+  getStatus(): ThrottleStatus {
+    return {
+      concurrency: this.concurrency,
+      maxConcurrency: this.config.maxConcurrency,
+      inFlight: this.inFlight,
+      totalWaitMs: this.totalWaitMs,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+    };
+  }
+
+  private waitForSlot(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.slotWaiters = this.slotWaiters.filter(w => w !== waiter);
+        reject(signal!.reason);
+      };
+      this.slotWaiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private wakeNextWaiter(): void {
+    // The woken caller re-checks the limit before taking the slot
+    if (this.inFlight < this.concurrency) this.slotWaiters.shift()?.();
+  }
+
+  private siteBucket(siteUrl: string): TokenBucket {
+    let bucket = this.sites.get(siteUrl);
+    if (!bucket) {
+      bucket = new TokenBucket(this.config.siteQpm);
+      this.sites.set(siteUrl, bucket);
+    }
+    return bucket;
+  }
+}
+
+/** setTimeout as a promise that rejects as soon as `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function positiveEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
@@ -0,0 +1,191 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { JobStore } from './JobStore.js';
+import { SyncManager } from './SyncManager.js';
+import { parseCron, nextCronRun, type CronSchedule } from './cron.js';
+import { getDataDir } from '../tools/helpers.js';
+import type { SearchType } from '../types/index.js';
+
+const SCHEDULE_FILENAME = 'schedule.json';
+// setTimeout overflows past ~24.8 days, so long waits are re-armed in steps
+const MAX_TIMER_MS = 6 * 60 * 60 * 1000;
+
+export interface ScheduleConfig {
+  /** Start the scheduler inside the MCP server. The daemon always runs it. */
+  enabled: boolean;
+  /** Five-field cron expression in local time. */
+  cron: string;
+  /** Each run starts a random 0..jitterMinutes after the cron time. */
+  jitterMinutes: number;
+  /** Local "HH:MM" window in which runs are postponed until it ends. */
+  quietHours: { start: string; end: string } | null;
+  /** Properties the scheduler never syncs. */
+  excludeProperties: string[];
+  searchType: SearchType;
+}
+
+const DEFAULT_SCHEDULE: ScheduleConfig = {
+  enabled: false,
+  cron: '0 6 * * *',
+  jitterMinutes: 30,
+  quietHours: null,
+  excludeProperties: [],
+  searchType: 'web',
+};
+
+/** Path of the schedule config. Override with BSC_SCHEDULE_FILE. */
+export function getSchedulePath(): string {
+  return process.env.BSC_SCHEDULE_FILE || join(getDataDir(), SCHEDULE_FILENAME);
+}
+
+/**
+ * Read the schedule config, filling in defaults. A missing file gives the
+ * defaults (disabled); a malformed one throws so a typo never silently
+ * turns scheduling off.
+ */
+export function loadScheduleConfig(path: string = getSchedulePath()): ScheduleConfig {
+  if (!existsSync(path)) return { ...DEFAULT_SCHEDULE };
+
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Could not read schedule config ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const config: ScheduleConfig = { ...DEFAULT_SCHEDULE, ...raw };
+  parseCron(config.cron);
+  if (typeof config.jitterMinutes !== 'number' || config.jitterMinutes < 0) {
+    throw new Error(`Invalid jitterMinutes in ${path}: expected a number >= 0.`);
+  }
+  if (config.quietHours) {
+    parseClock(config.quietHours.start);
+    parseClock(config.quietHours.end);
+  }
+  if (!Array.isArray(config.excludeProperties)) {
+    throw new Error(`Invalid excludeProperties in ${path}: expected an array of site URLs.`);
+  }
+  return config;
+}
+
+/**
+ * Runs incremental sync_all_properties on a cron schedule. A run is skipped
+ * while the previous scheduled job is still going, so slow syncs never pile up.
+ * Only one process per data directory runs scheduled syncs: the first to
+ * take the lock in the job store, until it exits and another takes over.
+ */
+export class Scheduler {
+  private schedule: CronSchedule;
+  private timer: NodeJS.Timeout | null = null;
+  private nextRunAt: Date | null = null;
+  private lastJobId: string | null = null;
+
+  /**
+   * @param keepAlive Hold the process open while waiting. The daemon needs
+   *   this; inside the MCP server the stdio transport decides when to exit.
+   */
+  constructor(
+    private syncManager: SyncManager,
+    private config: ScheduleConfig,
+    private keepAlive = false,
+    private store: JobStore = new JobStore()
+  ) {
+    this.schedule = parseCron(config.cron);
+  }
+
+  start(): void {
+    const holder = this.store.acquireSchedulerLock();
+    if (holder !== null) {
+      console.error(`[Scheduler] Process ${holder} is already running scheduled syncs for this data directory; this one takes over only if it stops`);
+    }
+    this.arm(this.computeNextRun(new Date()));
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.nextRunAt = null;
+    this.store.releaseSchedulerLock();
+  }
+
+  getNextRun(): Date | null {
+    return this.nextRunAt;
+  }
+
+  /** Next cron time after `from`, plus jitter, moved out of quiet hours. */
+  computeNextRun(from: Date): Date {
+    const cronTime = nextCronRun(this.schedule, from);
+    const jitterMs = Math.floor(Math.random() * this.config.jitterMinutes * 60_000);
+    const runAt = new Date(cronTime.getTime() + jitterMs);
+    return this.config.quietHours ? leaveQuietHours(runAt, this.config.quietHours) : runAt;
+  }
+
+  private arm(runAt: Date): void {
+    this.nextRunAt = runAt;
+    console.error(`[Scheduler] Next sync at ${runAt.toISOString()} (cron "${this.config.cron}")`);
+    this.wait();
+  }
+
+  private wait(): void {
+    const delay = Math.min(Math.max(this.nextRunAt!.getTime() - Date.now(), 0), MAX_TIMER_MS);
+    this.timer = setTimeout(() => {
+      if (Date.now() < this.nextRunAt!.getTime()) {
+        this.wait();
+        return;
+      }
+      this.run()
+        .catch(err => console.error(`[Scheduler] Scheduled sync failed to start: ${err instanceof Error ? err.message : err}`))
+        .finally(() => this.arm(this.computeNextRun(new Date())));
+    }, delay);
+    if (!this.keepAlive) this.timer.unref();
+  }
+
+  private async run(): Promise<void> {
+    const holder = this.store.acquireSchedulerLock();
+    if (holder !== null) {
+      console.error(`[Scheduler] Process ${holder} runs scheduled syncs for this data directory; skipping this run`);
+      return;
+    }
+
+    if (this.lastJobId) {
+      const previous = this.syncManager.getStatus(this.lastJobId);
+      if (!Array.isArray(previous) && (previous.status === 'queued' || previous.status === 'syncing')) {
+        console.error(`[Scheduler] Previous scheduled job ${this.lastJobId} is still running; skipping this run`);
+        return;
+      }
+    }
+
+    this.lastJobId = await this.syncManager.startSyncAll({
+      searchType: this.config.searchType,
+      excludeProperties: this.config.excludeProperties,
+    });
+    console.error(`[Scheduler] Started scheduled sync ${this.lastJobId}`);
+  }
+}
+
+// --- Helpers ---
+
+function parseClock(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value ?? '');
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new Error(`Invalid quiet hours time "${value}": expected HH:MM.`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/** If `date` falls inside the quiet window, move it to the window's end. */
+function leaveQuietHours(date: Date, quietHours: { start: string; end: string }): Date {
+  const start = parseClock(quietHours.start);
+  const end = parseClock(quietHours.end);
+  const minute = date.getHours() * 60 + date.getMinutes();
+
+  const quiet = start <= end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end; // window spans midnight
+  if (!quiet) return date;
+
+  const result = new Date(date);
+  result.setHours(Math.floor(end / 60), end % 60, 0, 0);
+  if (result <= date) result.setDate(result.getDate() + 1);
+  return result;
+}
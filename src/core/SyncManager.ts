@@ -1,9 +1,13 @@
 import { randomUUID } from 'node:crypto';
+import { basename } from 'path';
 import { GscClient } from './GscClient.js';
+import type { GscAccounts } from './credentials.js';
 import { Database } from './Database.js';
 import { DataRetention } from './DataRetention.js';
-import { getDbPath, defaultStartDate, defaultEndDate } from '../tools/helpers.js';
-import type { SearchAnalyticsRow } from '../types/index.js';
+import { JobStore } from './JobStore.js';
+import type { ThrottleStatus } from './RateLimiter.js';
+import { addDays, daysBetween, getDbPath, defaultStartDate, defaultEndDate, listDbPaths } from '../tools/helpers.js';
+import type { DataState, SearchAnalyticsRow, SearchAppearanceRow, SearchType, TotalsDimension, TotalsRow } from '../types/index.js';
 
 // Concurrency limits
 const CHUNK_CONCURRENCY = 3;   // parallel date-range chunks per property
@@ -11,8 +15,28 @@ const PROPERTY_CONCURRENCY = 2; // parallel properties in sync_all
 
 const CHUNK_DAYS = 90;
 const DEFAULT_DIMS = ['query', 'page', 'date', 'device', 'country'];
+// searchAppearance can't be grouped with query/page/device/country, so it gets its own pass
+const APPEARANCE_DIMS = ['date', 'searchAppearance'];
+// Aggregates without the query dimension, which include anonymized-query traffic
+const TOTALS_DIMS: TotalsDimension[] = ['date', 'page', 'device', 'country'];
+// Days before the last synced date that incremental syncs fetch again, since
+// GSC revises the most recent 2-3 days. Override with BSC_FRESH_LOOKBACK_DAYS.
+const DEFAULT_LOOKBACK_DAYS = 3;
 
-export type SyncJobStatus = 'queued' | 'syncing' | 'completed' | 'failed' | 'cancelled';
+export type SyncJobStatus = 'queued' | 'syncing' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+const RESUMABLE_STATUSES: SyncJobStatus[] = ['interrupted', 'failed', 'cancelled'];
+
+export interface SyncPropertyArgs {
+  siteUrl: string;
+  startDate?: string;
+  endDate?: string;
+  dimensions?: string[];
+  searchType?: SearchType;
+  lookbackDays?: number;
+  /** Fetch only these date ranges (e.g. gaps), instead of startDate..endDate. */
+  ranges?: Array<{ from: string; to: string }>;
+}
 
 export interface SyncJobResult {
   siteUrl: string;
@@ -20,10 +44,15 @@ export interface SyncJobResult {
   rowsFetched: number;
   rowsInserted: number;
   durationMs: number;
+  /** Configured account whose credentials synced the property. */
+  account?: string;
   error?: string;
+  /** Dates still provisional after this sync; a later sync will re-fetch them. */
+  provisionalDates?: string[];
   pruned?: {
     rowsDeleted: number;
     rowsAfter: number;
+    rowsArchived: number;
     spaceSavedMB: number;
   };
 }
@@ -39,6 +68,11 @@ export interface SyncStatus {
   apiCallsMade: number;
   startedAt: string;
   elapsedMs: number;
+  /**
+   * waitMs is this job's time spent waiting on the API rate limiter; the
+   * rest is the process-wide limiter state shared with other jobs.
+   */
+  throttle: { waitMs: number } & Omit<ThrottleStatus, 'totalWaitMs'>;
   results: SyncJobResult[];
   error?: string;
 }
@@ -47,19 +81,19 @@ interface SyncJob {
   id: string;
   status: SyncJobStatus;
   cancelled: boolean;
-  properties: Array<{
-    siteUrl: string;
-    startDate?: string;
-    endDate?: string;
-    dimensions?: string[];
-    searchType?: 'web' | 'discover' | 'googleNews' | 'image' | 'video';
-  }>;
+  /**
+   * Set while runJob is executing. A cancelled job is marked 'cancelled'
+   * at once but keeps running until its in-flight chunks settle.
+   */
+  running: boolean;
+  properties: SyncPropertyArgs[];
   totalProperties: number;
   completedProperties: number;
   currentProperty: string | null;
   rowsFetched: number;
   estimatedTotalRows: number | null;
   apiCallsMade: number;
+  throttleWaitMs: number;
   startedAt: number;
   results: SyncJobResult[];
   error?: string;
@@ -70,43 +104,86 @@ const MAX_JOB_HISTORY = 50;
 export class SyncManager {
   private jobs = new Map<string, SyncJob>();
   private jobOrder: string[] = [];
+  /** Jobs another live process was running when this one started. */
+  private liveElsewhere: string[];
 
-  constructor(private gscClient: GscClient) {}
+  constructor(private accounts: GscAccounts, private store: JobStore = new JobStore()) {
+    this.liveElsewhere = this.recoverInterrupted();
+  }
 
-  startSync(args: {
-    siteUrl: string;
-    startDate?: string;
-    endDate?: string;
-    dimensions?: string[];
-    searchType?: 'web' | 'discover' | 'googleNews' | 'image' | 'video';
-  }): string {
+  startSync(args: SyncPropertyArgs): string {
     const job = this.createJob([args]);
     this.runJob(job);
     return job.id;
   }
 
-  async startSyncAll(args: {
-    startDate?: string;
-    endDate?: string;
-    dimensions?: string[];
-    searchType?: 'web' | 'discover' | 'googleNews' | 'image' | 'video';
-  }): Promise<string> {
-    const properties = await this.gscClient.listProperties();
+  async startSyncAll(
+    args: Omit<SyncPropertyArgs, 'siteUrl'> & { excludeProperties?: string[] }
+  ): Promise<string> {
+    const excluded = new Set(args.excludeProperties ?? []);
+    const properties = (await this.accounts.listProperties()).filter(p => !excluded.has(p.siteUrl));
     const propertyArgs = properties.map(p => ({
       siteUrl: p.siteUrl,
       startDate: args.startDate,
       endDate: args.endDate,
       dimensions: args.dimensions,
       searchType: args.searchType,
+      lookbackDays: args.lookbackDays,
     }));
     const job = this.createJob(propertyArgs);
     this.runJob(job);
     return job.id;
   }
 
+  /** Start a job that fetches only the given date ranges of each property. */
+  startBackfill(properties: SyncPropertyArgs[]): string {
+    const job = this.createJob(properties);
+    this.runJob(job);
+    return job.id;
+  }
+
+  /**
+   * Resume an interrupted, failed or cancelled job under its original id.
+   * Properties that finished keep their results; the rest re-fetch only the
+   * chunks that never completed.
+   */
+  resumeSync(jobId: string): string {
+    const running = this.jobs.get(jobId);
+    if (running?.running && running.cancelled) {
+      throw new Error(`Job ${jobId} was cancelled but is still finishing the requests it had in flight. Try again once they settle.`);
+    }
+    if (running && (running.running || running.status === 'queued' || running.status === 'syncing')) {
+      throw new Error(`Job ${jobId} is still running.`);
+    }
+    const job = this.loadJob(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found. It may have expired from history.`);
+    }
+    if (!RESUMABLE_STATUSES.includes(job.status)) {
+      throw new Error(`Job ${jobId} is ${job.status}; only ${RESUMABLE_STATUSES.join(', ')} jobs can be resumed.`);
+    }
+
+    const finished = new Set(
+      job.results.filter(r => r.status === 'completed' || r.status === 'skipped').map(r => r.siteUrl)
+    );
+    job.properties = job.properties.filter(p => !finished.has(p.siteUrl));
+    job.results = job.results.filter(r => finished.has(r.siteUrl));
+    job.completedProperties = job.results.length;
+    job.status = 'queued';
+    job.cancelled = false;
+    job.error = undefined;
+
+    if (!running) this.jobOrder.push(jobId);
+    this.jobs.set(jobId, job);
+    this.pruneHistory();
+    this.store.saveJob(job);
+    this.runJob(job);
+    return jobId;
+  }
+
   getStatus(jobId?: string): SyncStatus | SyncStatus[] {
     if (jobId) {
-      const job = this.jobs.get(jobId);
+      const job = this.jobs.get(jobId) ?? this.loadJob(jobId);
       if (!job) {
         return {
           jobId,
@@ -119,13 +196,20 @@ export class SyncManager {
           apiCallsMade: 0,
           startedAt: '',
           elapsedMs: 0,
+          throttle: this.throttleStatus(0),
           results: [],
           error: `Job ${jobId} not found. It may have expired from history.`,
         };
       }
       return this.jobToStatus(job);
     }
-    return this.jobOrder.map(id => this.jobToStatus(this.jobs.get(id)!));
+    // History comes from the store so it includes jobs from earlier runs
+    return this.store.listJobs(MAX_JOB_HISTORY)
+      .reverse()
+      .flatMap(stored => {
+        const job = this.jobs.get(stored.id) ?? this.loadJob(stored.id);
+        return job ? [this.jobToStatus(job)] : [];
+      });
   }
 
   cancelJob(jobId: string): boolean {
@@ -136,17 +220,67 @@ export class SyncManager {
     }
     job.cancelled = true;
     job.status = 'cancelled';
+    this.store.saveJob(job);
     return true;
   }
 
   // --- Private ---
 
+  /**
+   * Mark jobs left behind by a process that stopped mid-sync as
+   * 'interrupted'. Returns the ids of jobs another process is still running.
+   */
+  private recoverInterrupted(): string[] {
+    const { interrupted, live } = this.store.recoverInterrupted();
+    if (interrupted.length > 0) {
+      console.error(`[Sync] Marked ${interrupted.length} job(s) interrupted by a restart: ${interrupted.join(', ')}. Use resume_sync to finish them.`);
+    }
+    return live;
+  }
+
+  /**
+   * Close out 'running' sync_log entries in each property database that no
+   * live job owns. Called once the server is up, since there can be many
+   * databases; it yields between them so tool calls aren't held up.
+   */
+  async recoverSyncLogs(): Promise<void> {
+    for (const dbPath of listDbPaths()) {
+      await new Promise(resolve => setImmediate(resolve));
+      try {
+        const marked = Database.markOrphanedSyncLogs(dbPath, [...this.liveElsewhere, ...this.jobs.keys()]);
+        if (marked > 0) {
+          console.error(`[Sync] ${basename(dbPath)}: marked ${marked} orphaned sync_log entries as interrupted`);
+        }
+      } catch (err) {
+        console.error(`[Sync] Could not check ${basename(dbPath)} for orphaned sync logs: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  }
+
+  /** Rebuild a job from the store, e.g. one started before a restart. */
+  private loadJob(jobId: string): SyncJob | null {
+    const stored = this.store.getJob(jobId);
+    if (!stored) return null;
+    const properties = this.store.getProperties(jobId);
+    return {
+      ...stored,
+      cancelled: stored.status === 'cancelled',
+      running: false,
+      // Wait time is only tracked in memory
+      throttleWaitMs: 0,
+      properties: properties.map(p => p.args),
+      currentProperty: null,
+      results: properties.flatMap(p => (p.result ? [p.result] : [])),
+    };
+  }
+
   private createJob(properties: SyncJob['properties']): SyncJob {
     const id = randomUUID().slice(0, 8);
     const job: SyncJob = {
       id,
       status: 'queued',
       cancelled: false,
+      running: false,
       properties,
       totalProperties: properties.length,
       completedProperties: 0,
@@ -154,6 +288,7 @@ export class SyncManager {
       rowsFetched: 0,
       estimatedTotalRows: null,
       apiCallsMade: 0,
+      throttleWaitMs: 0,
       startedAt: Date.now(),
       results: [],
     };
@@ -161,6 +296,7 @@ export class SyncManager {
     this.jobs.set(id, job);
     this.jobOrder.push(id);
     this.pruneHistory();
+    this.store.createJob(job, properties);
     return job;
   }
 
@@ -168,7 +304,7 @@ export class SyncManager {
     while (this.jobOrder.length > MAX_JOB_HISTORY) {
       const oldId = this.jobOrder.shift()!;
       const oldJob = this.jobs.get(oldId);
-      if (oldJob && (oldJob.status === 'completed' || oldJob.status === 'failed' || oldJob.status === 'cancelled')) {
+      if (oldJob && !oldJob.running && (oldJob.status === 'completed' || oldJob.status === 'failed' || oldJob.status === 'cancelled')) {
         this.jobs.delete(oldId);
       } else {
         this.jobOrder.unshift(oldId);
@@ -182,7 +318,17 @@ export class SyncManager {
    * Up to PROPERTY_CONCURRENCY properties sync concurrently.
    */
   private async runJob(job: SyncJob): Promise<void> {
+    job.running = true;
+    try {
+      await this.runJobProperties(job);
+    } finally {
+      job.running = false;
+    }
+  }
+
+  private async runJobProperties(job: SyncJob): Promise<void> {
     job.status = 'syncing';
+    this.store.saveJob(job);
 
     const activeProperties = new Set<string>();
 
@@ -191,24 +337,28 @@ export class SyncManager {
 
       activeProperties.add(prop.siteUrl);
       job.currentProperty = [...activeProperties].join(', ');
+      this.store.setPropertyStatus(job.id, prop.siteUrl, 'syncing');
       const propStart = Date.now();
 
+      let result: SyncJobResult;
       try {
-        const result = await this.syncOneProperty(job, prop);
-        job.results.push(result);
+        result = await this.syncOneProperty(job, prop);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-        job.results.push({
+        result = {
           siteUrl: prop.siteUrl,
           status: 'failed',
           rowsFetched: 0,
           rowsInserted: 0,
           durationMs: Date.now() - propStart,
           error: errorMessage,
-        });
+        };
       }
+      job.results.push(result);
+      this.store.savePropertyResult(job.id, result);
 
       job.completedProperties++;
+      this.store.saveJob(job);
       activeProperties.delete(prop.siteUrl);
       job.currentProperty = activeProperties.size > 0 ? [...activeProperties].join(', ') : null;
     };
@@ -228,6 +378,7 @@ export class SyncManager {
         job.error = `${failCount} of ${job.totalProperties} properties failed`;
       }
     }
+    this.store.saveJob(job);
   }
 
   /**
@@ -238,29 +389,49 @@ export class SyncManager {
    */
   private async syncOneProperty(
     job: SyncJob,
-    prop: SyncJob['properties'][0]
+    prop: SyncPropertyArgs
   ): Promise<SyncJobResult> {
     const {
       siteUrl,
-      endDate = defaultEndDate(),
       dimensions,
+      searchType = 'web',
+      lookbackDays = defaultLookbackDays(),
     } = prop;
 
     let startDate = prop.startDate;
+    let endDate = prop.endDate ?? defaultEndDate();
+    const { name: account, client } = await this.accounts.accountFor(siteUrl);
     const dbPath = getDbPath(siteUrl);
     const db = new Database(dbPath);
     let dbClosed = false;
 
     try {
-      // Incremental sync: resume from last synced date if no explicit start
+      // A resumed job re-fetches only the chunks it never finished. With
+      // none left it still finalises, since the process may have stopped
+      // between the last chunk and the steps after it.
+      const savedChunks = this.store.getChunks(job.id, siteUrl);
+      const pendingChunks = savedChunks.filter(c => !c.completed);
+      const resumedRowsInserted = savedChunks.reduce((sum, c) => sum + (c.completed ? c.rowsInserted : 0), 0);
+      if (savedChunks.length > 0) {
+        const remaining = pendingChunks.length > 0 ? pendingChunks : savedChunks;
+        startDate = remaining[0].from;
+        endDate = remaining[remaining.length - 1].to;
+      } else if (prop.ranges && prop.ranges.length > 0) {
+        startDate = prop.ranges[0].from;
+        endDate = prop.ranges[prop.ranges.length - 1].to;
+      }
+
+      // Incremental sync: resume from last synced date if no explicit start,
+      // going back far enough to re-fetch provisional days and the lookback window
       if (!startDate) {
-        const lastDate = db.getLastSyncDate();
+        const lastDate = db.getLastSyncDate(searchType);
         if (lastDate) {
-          const d = new Date(lastDate);
-          d.setDate(d.getDate() + 1);
-          const nextDay = d.toISOString().slice(0, 10);
-          if (nextDay <= endDate) {
-            startDate = nextDay;
+          const candidates = [addDays(lastDate, 1), addDays(lastDate, 1 - lookbackDays)];
+          const firstFresh = db.getFreshDates(searchType)[0];
+          if (firstFresh) candidates.push(firstFresh);
+          const resumeFrom = candidates.sort()[0];
+          if (resumeFrom <= endDate) {
+            startDate = resumeFrom;
           } else {
             return {
               siteUrl,
@@ -268,6 +439,7 @@ export class SyncManager {
               rowsFetched: 0,
               rowsInserted: 0,
               durationMs: 0,
+              account,
             };
           }
         } else {
@@ -288,13 +460,20 @@ export class SyncManager {
 
       try {
         const dims = dimensions || DEFAULT_DIMS;
+        // Only a default-dimension fetch can stand in for the provisional rows it replaces
+        const reconcileRows = dims.join(',') === DEFAULT_DIMS.join(',');
+
+        let chunks: Array<{ from: string; to: string }> = pendingChunks;
+        if (savedChunks.length === 0) {
+          chunks = (prop.ranges ?? [{ from: startDate, to: endDate }]).flatMap(range =>
+            daysBetween(range.from, range.to) > CHUNK_DAYS
+              ? buildChunks(range.from, range.to)
+              : [range]
+          );
+          this.store.saveChunks(job.id, siteUrl, chunks);
+        }
 
-        const daySpan = daysBetween(startDate, endDate);
-        const chunks = daySpan > CHUNK_DAYS
-          ? buildChunks(startDate, endDate)
-          : [{ from: startDate, to: endDate }];
-
-        console.error(`[Sync] ${siteUrl}: ${startDate} → ${endDate} (${chunks.length} chunk${chunks.length > 1 ? 's' : ''}, concurrency ${Math.min(chunks.length, CHUNK_CONCURRENCY)})`);
+        console.error(`[Sync] ${siteUrl}: ${startDate} → ${endDate} (${chunks.length} chunk${chunks.length === 1 ? '' : 's'}, concurrency ${Math.min(chunks.length, CHUNK_CONCURRENCY)})`);
 
         const syncLogId = db.createSyncLog({
           syncType: 'search_analytics',
@@ -305,79 +484,198 @@ export class SyncManager {
           rowsInserted: 0,
           status: 'running',
           errorMessage: null,
+          jobId: job.id,
         });
 
+        const totalsLogId = db.createSyncLog({
+          syncType: 'totals',
+          dimensions: TOTALS_DIMS.join(','),
+          dateFrom: startDate,
+          dateTo: endDate,
+          rowsFetched: 0,
+          rowsInserted: 0,
+          status: 'running',
+          errorMessage: null,
+          jobId: job.id,
+        });
+        let totalsRows = 0;
+
+        const appearanceLogId = db.createSyncLog({
+          syncType: 'search_appearance',
+          dimensions: APPEARANCE_DIMS.join(','),
+          dateFrom: startDate,
+          dateTo: endDate,
+          rowsFetched: 0,
+          rowsInserted: 0,
+          status: 'running',
+          errorMessage: null,
+          jobId: job.id,
+        });
+        let appearanceRows = 0;
+        const appearanceFailures: string[] = [];
+
         // Fetch chunks in parallel, but serialize DB writes per chunk
-        await runWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk) => {
-          if (job.cancelled) return;
-
-          // Fetch all pages for this chunk from the API
-          const chunkRows: SearchAnalyticsRow[] = [];
-
-          await this.gscClient.fetchSearchAnalytics(
-            siteUrl,
-            {
-              startDate: chunk.from,
-              endDate: chunk.to,
-              dimensions: dims,
-              ...(prop.searchType ? { searchType: prop.searchType } : {}),
-            },
-            abortController.signal,
-            (page) => {
-              const dbRows = page.rows.map(row => transformRow(row, dims));
-              chunkRows.push(...dbRows);
-              job.apiCallsMade++;
-
-              if (page.rows.length === 25000) {
-                job.estimatedTotalRows = (job.estimatedTotalRows || 0) + 25000;
+        try {
+          await runWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk) => {
+            if (job.cancelled) return;
+
+            // Fetch all pages for this chunk from the API
+            const chunkRows: SearchAnalyticsRow[] = [];
+            let chunkInserted = 0;
+
+            await client.fetchSearchAnalytics(
+              siteUrl,
+              {
+                startDate: chunk.from,
+                endDate: chunk.to,
+                dimensions: dims,
+                searchType,
+              },
+              abortController.signal,
+              (page) => {
+                const dbRows = page.rows.map(row => transformRow(row, dims, searchType, page.firstIncompleteDate));
+                chunkRows.push(...dbRows);
+                job.apiCallsMade++;
+
+                if (page.rows.length === 25000) {
+                  job.estimatedTotalRows = (job.estimatedTotalRows || 0) + 25000;
+                }
+              },
+              (waitMs) => { job.throttleWaitMs += waitMs; }
+            );
+
+            // Write this chunk's rows to DB (serialized — SQLite is single-writer).
+            // A cancelled fetch is partial, so it must not clear provisional rows.
+            const canReconcile = reconcileRows && !abortController.signal.aborted;
+            if (chunkRows.length > 0 || canReconcile) {
+              chunkInserted = db.insertSearchAnalyticsBatch(
+                chunkRows,
+                canReconcile ? { startDate: chunk.from, endDate: chunk.to, searchType } : undefined
+              );
+              db.refreshRollups(chunk.from, chunk.to);
+              if (!abortController.signal.aborted) {
+                db.clearLongTailRemainder([...new Set(chunkRows.map(row => row.date))], searchType);
               }
+              propRowsFetched += chunkRows.length;
+              propRowsInserted += chunkInserted;
+              job.rowsFetched += chunkRows.length;
+
+              console.error(`[Sync] ${siteUrl} chunk ${chunk.from}→${chunk.to}: ${chunkInserted} rows`);
             }
-          );
 
-          // Write this chunk's rows to DB (serialized — SQLite is single-writer)
-          if (chunkRows.length > 0) {
-            const inserted = db.insertSearchAnalyticsBatch(chunkRows);
-            propRowsFetched += chunkRows.length;
-            propRowsInserted += inserted;
-            job.rowsFetched += chunkRows.length;
+            if (job.cancelled) return;
+            totalsRows += await this.syncTotalsChunk(job, client, db, siteUrl, chunk, searchType, abortController.signal);
+
+            if (job.cancelled) return;
+            const appearance = await this.syncAppearanceChunk(job, client, db, siteUrl, chunk, searchType, abortController.signal);
+            appearanceRows += appearance.inserted;
+            if (appearance.error) {
+              appearanceFailures.push(`${chunk.from}→${chunk.to}: ${appearance.error}`);
+              // A chunk-level entry lets find_data_gaps report exactly which dates are missing
+              const chunkLogId = db.createSyncLog({
+                syncType: 'search_appearance',
+                dimensions: APPEARANCE_DIMS.join(','),
+                dateFrom: chunk.from,
+                dateTo: chunk.to,
+                rowsFetched: 0,
+                rowsInserted: 0,
+                status: 'running',
+                errorMessage: null,
+                jobId: job.id,
+              });
+              db.updateSyncLog(chunkLogId, { status: 'failed', errorMessage: appearance.error });
+            }
 
-            console.error(`[Sync] ${siteUrl} chunk ${chunk.from}→${chunk.to}: ${inserted} rows`);
+            if (job.cancelled) return;
+            this.store.completeChunk(job.id, siteUrl, chunk.from, chunkInserted);
+            this.store.saveJob(job);
+          });
+        } catch (err) {
+          // Close the logs so they don't stay 'running'; the chunks left
+          // pending are what resume_sync picks up
+          const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+          for (const id of [syncLogId, totalsLogId, appearanceLogId]) {
+            db.updateSyncLog(id, { status: 'error', errorMessage });
           }
-        });
+          throw err;
+        }
 
-        // Finalise sync log
+        // Finalise sync logs
         const finalStatus = job.cancelled ? 'cancelled' : 'completed';
         db.updateSyncLog(syncLogId, {
           rowsFetched: propRowsFetched,
           rowsInserted: propRowsInserted,
           status: finalStatus,
         });
+        db.updateSyncLog(totalsLogId, {
+          rowsFetched: totalsRows,
+          rowsInserted: totalsRows,
+          status: finalStatus,
+        });
+        // Appearance failures don't fail the sync, but the log shows them
+        const appearanceStatus = job.cancelled || appearanceFailures.length === 0
+          ? finalStatus
+          : appearanceFailures.length === chunks.length ? 'failed' : 'partial';
+        db.updateSyncLog(appearanceLogId, {
+          rowsFetched: appearanceRows,
+          rowsInserted: appearanceRows,
+          status: appearanceStatus,
+          ...(appearanceFailures.length > 0 ? { errorMessage: appearanceFailures.join('; ') } : {}),
+        });
 
-        if (propRowsInserted > 0) {
+        // Rows written before a resume count towards finalising the property
+        const wroteRows = propRowsInserted + resumedRowsInserted > 0;
+        if (wroteRows) {
           db.updateLastSynced(siteUrl);
         }
 
+        // Building rollups for an upgraded database would block every tool
+        // call in this process, so that is left to rebuild_rollups or the daemon
+        if (!db.rollupsReady()) {
+          console.error(`[Sync] ${siteUrl}: rollups not built yet; tools read search_analytics until rebuild_rollups or the daemon builds them`);
+        }
+
+        // Sitemap counts are a point-in-time snapshot rather than a date
+        // range, and a failure here shouldn't fail the analytics sync
+        if (!job.cancelled) {
+          try {
+            db.insertSitemapSnapshot(await client.listSitemaps(siteUrl));
+            job.apiCallsMade++;
+          } catch (err) {
+            console.error(`[Sync] ${siteUrl}: sitemaps not updated: ${err instanceof Error ? err.message : err}`);
+          }
+        }
+
+        const provisionalDates = db.getFreshDates(searchType);
         const result: SyncJobResult = {
           siteUrl,
           status: job.cancelled ? 'cancelled' : 'completed',
           rowsFetched: propRowsFetched,
           rowsInserted: propRowsInserted,
           durationMs: Date.now() - propStartTime,
+          account,
+          ...(provisionalDates.length > 0 ? { provisionalDates } : {}),
         };
 
         // Auto-prune after successful sync (not on cancel)
-        if (!job.cancelled && propRowsInserted > 0) {
+        if (!job.cancelled && wroteRows) {
           try {
             // Close DB before pruning (DataRetention opens its own connection)
             db.close();
             dbClosed = true;
-            const pruneResult = DataRetention.prune(siteUrl);
-            if (pruneResult.rowsDeleted > 0) {
-              result.pruned = {
-                rowsDeleted: pruneResult.rowsDeleted,
-                rowsAfter: pruneResult.rowsAfter,
-                spaceSavedMB: Math.round((pruneResult.dbSizeBefore - pruneResult.dbSizeAfter) / 1024 / 1024),
-              };
+            if (!DataRetention.getPolicy(siteUrl).policy.enabled) {
+              console.error(`[Retention] Auto-prune disabled for ${siteUrl}`);
+            } else {
+              // Applies the property's stored policy
+              const pruneResult = DataRetention.prune(siteUrl);
+              if (pruneResult.rowsDeleted > 0) {
+                result.pruned = {
+                  rowsDeleted: pruneResult.rowsDeleted,
+                  rowsAfter: pruneResult.rowsAfter,
+                  rowsArchived: pruneResult.rowsArchived,
+                  spaceSavedMB: Math.round((pruneResult.dbSizeBefore - pruneResult.dbSizeAfter) / 1024 / 1024),
+                };
+              }
             }
           } catch (pruneErr) {
             console.error(`[Retention] Auto-prune failed for ${siteUrl}: ${pruneErr}`);
@@ -393,6 +691,115 @@ export class SyncManager {
     }
   }
 
+  /**
+   * Fetch the property-level totals for one chunk: date alone, then date
+   * with each of page, device and country. Without the query dimension GSC
+   * keeps anonymized-query traffic in the numbers.
+   */
+  private async syncTotalsChunk(
+    job: SyncJob,
+    client: GscClient,
+    db: Database,
+    siteUrl: string,
+    chunk: { from: string; to: string },
+    searchType: SearchType,
+    signal: AbortSignal
+  ): Promise<number> {
+    let inserted = 0;
+    for (const dimension of TOTALS_DIMS) {
+      if (job.cancelled) break;
+      const rows: TotalsRow[] = [];
+      await client.fetchSearchAnalytics(
+        siteUrl,
+        {
+          startDate: chunk.from,
+          endDate: chunk.to,
+          dimensions: dimension === 'date' ? ['date'] : ['date', dimension],
+          searchType,
+        },
+        signal,
+        (page) => {
+          for (const row of page.rows) {
+            rows.push({
+              date: row.keys[0],
+              key: dimension === 'date' ? null : row.keys[1],
+              searchType,
+              dataState: dataStateFor(row.keys[0], page.firstIncompleteDate),
+              clicks: row.clicks,
+              impressions: row.impressions,
+              ctr: row.ctr,
+              position: row.position,
+            });
+          }
+          job.apiCallsMade++;
+        },
+        (waitMs) => { job.throttleWaitMs += waitMs; }
+      );
+      if (signal.aborted) break;
+      inserted += db.insertTotalsBatch(dimension, rows, { startDate: chunk.from, endDate: chunk.to, searchType });
+    }
+    return inserted;
+  }
+
+  /**
+   * Fetch the searchAppearance breakdown for one chunk.
+   * Failures are returned rather than thrown: appearance data is
+   * supplementary and some search types don't support the dimension.
+   */
+  private async syncAppearanceChunk(
+    job: SyncJob,
+    client: GscClient,
+    db: Database,
+    siteUrl: string,
+    chunk: { from: string; to: string },
+    searchType: SearchType,
+    signal: AbortSignal
+  ): Promise<{ inserted: number; error?: string }> {
+    const rows: SearchAppearanceRow[] = [];
+    try {
+      await client.fetchSearchAnalytics(
+        siteUrl,
+        {
+          startDate: chunk.from,
+          endDate: chunk.to,
+          dimensions: APPEARANCE_DIMS,
+          searchType,
+        },
+        signal,
+        (page) => {
+          for (const row of page.rows) {
+            rows.push({
+              date: row.keys[0],
+              searchAppearance: row.keys[1],
+              searchType,
+              dataState: dataStateFor(row.keys[0], page.firstIncompleteDate),
+              clicks: row.clicks,
+              impressions: row.impressions,
+              ctr: row.ctr,
+              position: row.position,
+            });
+          }
+          job.apiCallsMade++;
+        },
+        (waitMs) => { job.throttleWaitMs += waitMs; }
+      );
+    } catch (err) {
+      // A cancelled sync aborts the fetch; that isn't a failure of the chunk
+      if (signal.aborted) return { inserted: 0 };
+      const error = err instanceof Error ? err.message : String(err);
+      console.error(`[Sync] ${siteUrl} search appearance ${chunk.from}→${chunk.to} failed: ${error}`);
+      return { inserted: 0, error };
+    }
+
+    if (signal.aborted) return { inserted: 0 };
+    return { inserted: db.insertSearchAppearanceBatch(rows, { startDate: chunk.from, endDate: chunk.to, searchType }) };
+  }
+
+  private throttleStatus(waitMs: number): SyncStatus['throttle'] {
+    const { totalWaitMs: _total, ...limiter } = this.accounts.getThrottleStatus();
+    return { waitMs, ...limiter };
+  }
+
   private jobToStatus(job: SyncJob): SyncStatus {
     return {
       jobId: job.id,
@@ -405,6 +812,7 @@ export class SyncManager {
       apiCallsMade: job.apiCallsMade,
       startedAt: new Date(job.startedAt).toISOString(),
       elapsedMs: Date.now() - job.startedAt,
+      throttle: this.throttleStatus(job.throttleWaitMs),
       results: job.results,
       error: job.error,
     };
@@ -415,7 +823,9 @@ export class SyncManager {
 
 function transformRow(
   row: { keys: string[]; clicks: number; impressions: number; ctr: number; position: number },
-  dimensions: string[]
+  dimensions: string[],
+  searchType: SearchType,
+  firstIncompleteDate: string | null
 ): SearchAnalyticsRow {
   const keyMap: Record<string, string | null> = {
     query: null,
@@ -434,6 +844,8 @@ function transformRow(
     device: keyMap.device,
     country: keyMap.country,
     searchAppearance: null,
+    searchType,
+    dataState: dataStateFor(keyMap.date || '', firstIncompleteDate),
     clicks: row.clicks,
     impressions: row.impressions,
     ctr: row.ctr,
@@ -441,6 +853,15 @@ function transformRow(
   };
 }
 
+function dataStateFor(date: string, firstIncompleteDate: string | null): DataState {
+  return firstIncompleteDate && date >= firstIncompleteDate ? 'fresh' : 'final';
+}
+
+function defaultLookbackDays(): number {
+  const env = Number(process.env.BSC_FRESH_LOOKBACK_DAYS);
+  return Number.isInteger(env) && env >= 0 ? env : DEFAULT_LOOKBACK_DAYS;
+}
+
 function buildChunks(dateFrom: string, dateTo: string): Array<{ from: string; to: string }> {
   const chunks: Array<{ from: string; to: string }> = [];
   let cursor = new Date(dateFrom);
@@ -459,12 +880,6 @@ function buildChunks(dateFrom: string, dateTo: string): Array<{ from: string; to
   return chunks;
 }
 
-function daysBetween(dateFrom: string, dateTo: string): number {
-  const from = new Date(dateFrom);
-  const to = new Date(dateTo);
-  return Math.round((to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24));
-}
-
 /**
  * Run async tasks with a concurrency limit.
  * Processes items from the array, keeping up to `limit` in flight at once.
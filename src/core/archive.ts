@@ -0,0 +1,158 @@
+import { appendFileSync, createReadStream, existsSync, mkdirSync, readdirSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import { createInterface } from 'readline';
+import { createGunzip, gzipSync } from 'zlib';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { ArchivedRow } from '../types/index.js';
+
+/**
+ * Rows removed by the retention policy are written here before they are
+ * deleted: one gzipped NDJSON file per property and month, e.g.
+ * `archive/example.com/2025-03.ndjson.gz` next to the databases.
+ *
+ * Each prune appends a new gzip member to the month's file, which gunzip
+ * reads back as one stream. Rows keep their search_facts id, so a row that
+ * was archived twice (a prune interrupted between writing and deleting)
+ * restores once.
+ */
+
+const ARCHIVE_SUFFIX = '.ndjson.gz';
+// Rows held in memory per month before they are flushed to the file
+const FLUSH_ROWS = 50_000;
+// Rows handed back per batch when reading a month
+const READ_BATCH_ROWS = 5_000;
+
+export interface ArchiveWriteResult {
+  rowsArchived: number;
+  /** Month files written to, e.g. "2025-03". */
+  months: string[];
+}
+
+export function getArchiveDir(dbPath: string): string {
+  return join(dirname(dbPath), 'archive', basename(dbPath, '.db'));
+}
+
+export function archiveFile(dbPath: string, month: string): string {
+  return join(getArchiveDir(dbPath), month + ARCHIVE_SUFFIX);
+}
+
+/** Archived months for a database, oldest first. */
+export function listArchiveMonths(dbPath: string): string[] {
+  const dir = getArchiveDir(dbPath);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter(name => name.endsWith(ARCHIVE_SUFFIX))
+    .map(name => name.slice(0, -ARCHIVE_SUFFIX.length))
+    .sort();
+}
+
+/**
+ * Append every search_analytics row matching `where` to its month's
+ * archive file. Rows are read in date order, so each month is flushed
+ * as soon as the next one starts.
+ */
+export function archiveRows(
+  db: BetterSqlite3.Database,
+  dbPath: string,
+  where: string,
+  params: any[]
+): ArchiveWriteResult {
+  const rows = db.prepare(`
+    SELECT id, date, query, page, device, country, search_appearance, search_type, data_state,
+      clicks, impressions, ctr, position
+    FROM search_analytics
+    WHERE ${where}
+    ORDER BY date
+  `).iterate(...params) as IterableIterator<any>;
+
+  const months: string[] = [];
+  let rowsArchived = 0;
+  let month: string | null = null;
+  let lines: string[] = [];
+
+  const flush = () => {
+    if (!month || lines.length === 0) return;
+    mkdirSync(getArchiveDir(dbPath), { recursive: true });
+    appendFileSync(archiveFile(dbPath, month), gzipSync(lines.join('\n') + '\n'));
+    lines = [];
+  };
+
+  for (const row of rows) {
+    const rowMonth = (row.date as string).slice(0, 7);
+    if (rowMonth !== month) {
+      flush();
+      month = rowMonth;
+      months.push(month);
+    }
+    const archived: ArchivedRow = {
+      id: row.id,
+      date: row.date,
+      query: row.query,
+      page: row.page,
+      device: row.device,
+      country: row.country,
+      searchAppearance: row.search_appearance,
+      searchType: row.search_type,
+      dataState: row.data_state,
+      clicks: row.clicks,
+      impressions: row.impressions,
+      ctr: row.ctr,
+      position: row.position,
+    };
+    lines.push(JSON.stringify(archived));
+    rowsArchived++;
+    if (lines.length >= FLUSH_ROWS) flush();
+  }
+  flush();
+
+  return { rowsArchived, months };
+}
+
+/**
+ * Every row archived for one month, in the order they were written, in
+ * batches. The file is streamed: a month of a large property can be more
+ * than fits in memory, or in one string.
+ */
+export async function* readArchiveMonth(
+  dbPath: string,
+  month: string,
+  batchSize: number = READ_BATCH_ROWS
+): AsyncGenerator<ArchivedRow[]> {
+  const file = archiveFile(dbPath, month);
+  if (!existsSync(file)) return;
+
+  const source = createReadStream(file);
+  const gunzip = createGunzip();
+  const lines = createInterface({ input: source.pipe(gunzip), crlfDelay: Infinity });
+  // pipe() doesn't forward errors, and readline ends quietly on them
+  let failure: Error | null = null;
+  const fail = (err: Error) => {
+    failure ??= err;
+    lines.close();
+  };
+  source.on('error', fail);
+  gunzip.on('error', fail);
+
+  const unreadable = (err: unknown) => new Error(`Could not read archive ${file}: ${err instanceof Error ? err.message : err}`);
+
+  try {
+    let batch: ArchivedRow[] = [];
+    try {
+      for await (const line of lines) {
+        if (line.length === 0) continue;
+        batch.push(JSON.parse(line) as ArchivedRow);
+        if (batch.length >= batchSize) {
+          yield batch;
+          batch = [];
+        }
+      }
+    } catch (err) {
+      throw unreadable(err);
+    }
+    if (failure) throw unreadable(failure);
+    if (batch.length > 0) yield batch;
+  } finally {
+    lines.close();
+    source.destroy();
+  }
+}
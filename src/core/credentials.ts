@@ -0,0 +1,317 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { basename, join } from 'path';
+import { GscClient, createLimiters, type ClientLimiters } from './GscClient.js';
+import { getOAuthTokenDir, listOAuthTokenFiles, readOAuthToken } from './oauth.js';
+import type { ThrottleStatus } from './RateLimiter.js';
+import { getDataDir, sanitizeSiteUrl } from '../tools/helpers.js';
+import type { GscProperty } from '../types/index.js';
+
+const ACCOUNTS_FILENAME = 'accounts.json';
+const OWNERS_FILENAME = 'property-accounts.json';
+
+// When several accounts can see a property, the one with the most access owns it
+const PERMISSION_RANK: Record<string, number> = {
+  siteOwner: 3,
+  siteFullUser: 2,
+  siteRestrictedUser: 1,
+};
+
+export type GscCredentials =
+  | { type: 'service_account'; keyFile: string }
+  /** tokenFile is null until a user has signed in. */
+  | { type: 'oauth'; clientFile: string; tokenFile: string | null };
+
+/** One identity the server can call the Search Console API as. */
+export interface GscAccount {
+  /** Name from accounts.json; the identity for accounts configured by env. */
+  name: string;
+  /** Service account client_email, or the signed-in user's email. */
+  identity: string;
+  credentials: GscCredentials;
+  client: GscClient;
+}
+
+/** A property as seen across every account. */
+export interface AccountProperty extends GscProperty {
+  /** Account that syncs this property. */
+  account: string;
+  identities: Array<{ account: string; identity: string; permissionLevel: string }>;
+}
+
+export const NOT_SIGNED_IN = 'oauth (not signed in)';
+
+/** Path of the named accounts config. Override with BSC_ACCOUNTS_FILE. */
+export function getAccountsPath(): string {
+  return process.env.BSC_ACCOUNTS_FILE || join(getDataDir(), ACCOUNTS_FILENAME);
+}
+
+/** Whether any credentials are configured, signed in or not. */
+export function hasCredentialConfig(): boolean {
+  return Boolean(
+    process.env.GOOGLE_APPLICATION_CREDENTIALS
+    || process.env.BSC_OAUTH_CLIENT_FILE
+    || existsSync(getAccountsPath())
+  );
+}
+
+/**
+ * Every configured Google account, and which one each property belongs to.
+ *
+ * Accounts come from accounts.json when it exists, otherwise from the
+ * environment. A property's owner is, in order: its entry under
+ * "properties" in accounts.json, the owner remembered from an earlier
+ * listing, or whichever account with the highest permission lists it.
+ * Remembered owners are kept in property-accounts.json.
+ *
+ * Every account's client shares one set of rate limiters: OAuth users
+ * signed in through the same client file, and usually every account in one
+ * install, draw on a single Cloud project's quota.
+ */
+export class GscAccounts {
+  private owners: Record<string, string>;
+
+  constructor(
+    private accounts: GscAccount[],
+    private pinned: Record<string, string> = {},
+    private limiters: ClientLimiters = createLimiters(),
+    private ownersPath: string = join(getDataDir(), OWNERS_FILENAME)
+  ) {
+    this.owners = loadOwners(ownersPath);
+  }
+
+  static load(): GscAccounts {
+    const configPath = getAccountsPath();
+    const limiters = createLimiters();
+    if (existsSync(configPath)) {
+      const { accounts, properties } = loadAccountsConfig(configPath, limiters);
+      return new GscAccounts(accounts, properties, limiters);
+    }
+    return new GscAccounts(accountsFromEnv(limiters), {}, limiters);
+  }
+
+  list(): GscAccount[] {
+    return this.accounts;
+  }
+
+  /**
+   * Properties visible to any signed-in account, merged by site URL. One
+   * failing account is logged and skipped unless every account fails.
+   */
+  async listProperties(): Promise<AccountProperty[]> {
+    const signedIn = this.accounts.filter(a => a.client.isSignedIn());
+    if (signedIn.length === 0) {
+      throw new Error('No Google account is signed in. Run auth_status with login=true, or `better-search-console auth`.');
+    }
+
+    const properties = new Map<string, AccountProperty>();
+    const errors: Error[] = [];
+    for (const account of signedIn) {
+      try {
+        for (const prop of await account.client.listProperties()) {
+          const entry = properties.get(prop.siteUrl) ?? { ...prop, account: account.name, identities: [] };
+          entry.identities.push({ account: account.name, identity: account.identity, permissionLevel: prop.permissionLevel });
+          properties.set(prop.siteUrl, entry);
+        }
+      } catch (err) {
+        console.error(`[BSC] Could not list properties for ${account.name}: ${err instanceof Error ? err.message : err}`);
+        errors.push(err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+    if (properties.size === 0 && errors.length > 0) throw errors[0];
+
+    for (const prop of properties.values()) {
+      const owner = this.chooseOwner(prop);
+      prop.account = owner.account;
+      prop.permissionLevel = owner.permissionLevel;
+    }
+    this.rememberOwners([...properties.values()]);
+    return [...properties.values()];
+  }
+
+  /** The account a property's API calls go through. */
+  async accountFor(siteUrl: string): Promise<GscAccount> {
+    const known = this.byName(this.pinned[siteUrl]) ?? this.byName(this.owners[siteUrl]);
+    if (known) return known;
+    if (this.accounts.length === 1) return this.accounts[0];
+
+    const prop = (await this.listProperties()).find(p => p.siteUrl === siteUrl);
+    const account = prop ? this.byName(prop.account) : undefined;
+    if (!account) {
+      throw new Error(`None of the configured accounts (${this.accounts.map(a => a.name).join(', ')}) can see "${siteUrl}".`);
+    }
+    return account;
+  }
+
+  /** The OAuth client file used for new sign-ins, if any account uses OAuth. */
+  oauthClientFile(): string | null {
+    const oauth = this.accounts.find(a => a.credentials.type === 'oauth');
+    return oauth?.credentials.type === 'oauth' ? oauth.credentials.clientFile : process.env.BSC_OAUTH_CLIENT_FILE ?? null;
+  }
+
+  /**
+   * Record a completed OAuth login: re-signs an existing entry for the same
+   * user, takes over the signed-out placeholder, or adds a new account.
+   */
+  addSignedIn(clientFile: string, email: string, tokenFile: string): GscAccount {
+    const existing = this.accounts.find(a => a.credentials.type === 'oauth' && a.identity === email)
+      ?? this.accounts.find(a => a.identity === NOT_SIGNED_IN);
+    if (existing) {
+      existing.client.signIn(tokenFile);
+      if (existing.name === existing.identity) existing.name = email;
+      existing.identity = email;
+      existing.credentials = { type: 'oauth', clientFile, tokenFile };
+      return existing;
+    }
+
+    const credentials: GscCredentials = { type: 'oauth', clientFile, tokenFile };
+    const account = { name: email, identity: email, credentials, client: new GscClient(credentials, this.limiters) };
+    this.accounts.push(account);
+    return account;
+  }
+
+  /** State of the API limiter every account's client shares. */
+  getThrottleStatus(): ThrottleStatus {
+    return this.limiters.api.getStatus();
+  }
+
+  private byName(name: string | undefined): GscAccount | undefined {
+    return name ? this.accounts.find(a => a.name === name) : undefined;
+  }
+
+  private chooseOwner(prop: AccountProperty): AccountProperty['identities'][number] {
+    const preferred = this.pinned[prop.siteUrl] ?? this.owners[prop.siteUrl];
+    const match = prop.identities.find(i => i.account === preferred);
+    if (match) return match;
+    // Stable sort keeps config order among equal permissions
+    return [...prop.identities].sort(
+      (a, b) => (PERMISSION_RANK[b.permissionLevel] ?? 0) - (PERMISSION_RANK[a.permissionLevel] ?? 0)
+    )[0];
+  }
+
+  private rememberOwners(properties: AccountProperty[]): void {
+    let changed = false;
+    for (const prop of properties) {
+      if (this.owners[prop.siteUrl] !== prop.account) {
+        this.owners[prop.siteUrl] = prop.account;
+        changed = true;
+      }
+    }
+    if (changed) writeFileSync(this.ownersPath, JSON.stringify(this.owners, null, 2));
+  }
+}
+
+// --- Loading ---
+
+/**
+ * accounts.json:
+ *   { "accounts": [
+ *       { "name": "agency", "type": "service_account", "keyFile": "/keys/agency.json" },
+ *       { "name": "client-a", "type": "oauth", "clientFile": "/keys/oauth.json", "user": "seo@client-a.com" }
+ *     ],
+ *     "properties": { "sc-domain:client-a.com": "client-a" } }
+ */
+function loadAccountsConfig(path: string, limiters: ClientLimiters): { accounts: GscAccount[]; properties: Record<string, string> } {
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Could not read accounts config ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+  if (!Array.isArray(raw.accounts) || raw.accounts.length === 0) {
+    throw new Error(`Accounts config ${path} must list at least one entry under "accounts".`);
+  }
+
+  const accounts: GscAccount[] = raw.accounts.map((entry: any, i: number) => {
+    if (!entry?.name) throw new Error(`Account #${i + 1} in ${path} has no "name".`);
+    if (entry.type === 'service_account') {
+      if (!entry.keyFile) throw new Error(`Account "${entry.name}" in ${path} needs "keyFile".`);
+      const credentials: GscCredentials = { type: 'service_account', keyFile: entry.keyFile };
+      return { name: entry.name, identity: serviceAccountEmail(entry.keyFile), credentials, client: new GscClient(credentials, limiters) };
+    }
+    if (entry.type === 'oauth') {
+      if (!entry.clientFile || !entry.user) throw new Error(`Account "${entry.name}" in ${path} needs "clientFile" and "user".`);
+      const tokenFile = join(getOAuthTokenDir(), sanitizeSiteUrl(entry.user) + '.json');
+      const credentials: GscCredentials = { type: 'oauth', clientFile: entry.clientFile, tokenFile: existsSync(tokenFile) ? tokenFile : null };
+      return { name: entry.name, identity: entry.user, credentials, client: new GscClient(credentials, limiters) };
+    }
+    throw new Error(`Account "${entry.name}" in ${path} has unknown type "${entry.type}" (expected service_account or oauth).`);
+  });
+
+  const names = new Set<string>();
+  for (const account of accounts) {
+    if (names.has(account.name)) throw new Error(`Duplicate account name "${account.name}" in ${path}.`);
+    names.add(account.name);
+  }
+  const properties: Record<string, string> = raw.properties ?? {};
+  for (const [siteUrl, name] of Object.entries(properties)) {
+    if (!names.has(name)) throw new Error(`Property "${siteUrl}" in ${path} refers to unknown account "${name}".`);
+  }
+
+  return { accounts, properties };
+}
+
+/**
+ * property-accounts.json is only a cache of earlier listings, so a corrupt
+ * file is dropped rather than stopping the server; the next listing rewrites it.
+ */
+function loadOwners(path: string): Record<string, string> {
+  if (!existsSync(path)) return {};
+  try {
+    const owners = JSON.parse(readFileSync(path, 'utf-8'));
+    if (owners && typeof owners === 'object' && !Array.isArray(owners)) return owners;
+    throw new Error('expected an object of site URL to account name');
+  } catch (err) {
+    console.error(`[BSC] Ignoring unreadable ${path}: ${err instanceof Error ? err.message : err}`);
+    return {};
+  }
+}
+
+/**
+ * Without accounts.json: the service account in GOOGLE_APPLICATION_CREDENTIALS,
+ * then one entry per user who has signed in with the OAuth client in
+ * BSC_OAUTH_CLIENT_FILE. If the OAuth client is configured but nobody has
+ * signed in yet, a signed-out entry stands in so auth_status can complete
+ * the login.
+ */
+function accountsFromEnv(limiters: ClientLimiters): GscAccount[] {
+  const accounts: GscAccount[] = [];
+
+  const keyFile = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  if (keyFile) {
+    const credentials: GscCredentials = { type: 'service_account', keyFile };
+    const identity = serviceAccountEmail(keyFile);
+    accounts.push({ name: identity, identity, credentials, client: new GscClient(credentials, limiters) });
+  }
+
+  const clientFile = process.env.BSC_OAUTH_CLIENT_FILE;
+  if (clientFile) {
+    const tokenFiles = listOAuthTokenFiles();
+    for (const tokenFile of tokenFiles) {
+      const credentials: GscCredentials = { type: 'oauth', clientFile, tokenFile };
+      const identity = oauthEmail(tokenFile);
+      accounts.push({ name: identity, identity, credentials, client: new GscClient(credentials, limiters) });
+    }
+    if (tokenFiles.length === 0) {
+      const credentials: GscCredentials = { type: 'oauth', clientFile, tokenFile: null };
+      accounts.push({ name: NOT_SIGNED_IN, identity: NOT_SIGNED_IN, credentials, client: new GscClient(credentials, limiters) });
+    }
+  }
+
+  return accounts;
+}
+
+function serviceAccountEmail(keyFile: string): string {
+  try {
+    return JSON.parse(readFileSync(keyFile, 'utf-8')).client_email ?? basename(keyFile);
+  } catch {
+    return basename(keyFile);
+  }
+}
+
+function oauthEmail(tokenFile: string): string {
+  try {
+    return readOAuthToken(tokenFile).email;
+  } catch {
+    return basename(tokenFile, '.json');
+  }
+}
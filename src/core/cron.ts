@@ -0,0 +1,118 @@
+/**
+ * Minimal five-field cron expressions: minute hour day-of-month month
+ * day-of-week, in local time. Each field accepts *, numbers, ranges (1-5),
+ * lists (1,15) and steps (*\/15, 0-30/10). Day-of-week 0 and 7 are Sunday.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Standard cron: when both day fields are restricted, either may match. */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const FIELDS: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Far enough to cover "Feb 29" style schedules
+const MAX_SEARCH_DAYS = 366 * 5;
+
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields (minute hour day month weekday).`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, FIELDS[i], expression)
+  );
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: parts[2] !== '*',
+    dowRestricted: parts[4] !== '*',
+  };
+}
+
+/** First time strictly after `after` that matches the schedule. */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date {
+  const d = new Date(after);
+  d.setSeconds(0, 0);
+  d.setMinutes(d.getMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 86_400_000;
+  while (d.getTime() <= limit) {
+    if (!schedule.months.has(d.getMonth() + 1) || !matchesDay(schedule, d)) {
+      d.setDate(d.getDate() + 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(d.getHours())) {
+      d.setHours(d.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(d.getMinutes())) {
+      d.setMinutes(d.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return d;
+  }
+  throw new Error(`Cron expression "${schedule.expression}" never matches.`);
+}
+
+function matchesDay(schedule: CronSchedule, d: Date): boolean {
+  const dom = schedule.daysOfMonth.has(d.getDate());
+  const dow = schedule.daysOfWeek.has(d.getDay());
+  if (schedule.domRestricted && schedule.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+function parseField(
+  part: string,
+  field: { name: string; min: number; max: number },
+  expression: string
+): Set<number> {
+  const values = new Set<number>();
+  const fail = (): never => {
+    throw new Error(`Invalid ${field.name} "${part}" in cron expression "${expression}".`);
+  };
+
+  for (const item of part.split(',')) {
+    const [rangePart, stepPart] = item.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) fail();
+
+    let from: number;
+    let to: number;
+    if (rangePart === '*') {
+      from = field.min;
+      to = field.max;
+    } else if (rangePart.includes('-')) {
+      [from, to] = rangePart.split('-').map(Number);
+    } else {
+      from = Number(rangePart);
+      // "5/15" means every 15 from 5
+      to = stepPart === undefined ? from : field.max;
+    }
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < field.min || to > field.max || from > to) fail();
+
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return values;
+}
@@ -0,0 +1,539 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import { createRollupTables } from './rollups.js';
+
+/**
+ * Ordered schema migrations for per-property databases.
+ *
+ * Each migration runs in its own immediate transaction together with the
+ * schema_version bookkeeping, so a failure leaves the database at the last
+ * good version. Never edit a migration that has shipped — append a new one.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  /** Copy the database file before running (index rebuilds, table rewrites). */
+  backup?: boolean;
+  /** VACUUM afterwards to return the space a table rewrite freed. */
+  vacuum?: boolean;
+  up: (db: BetterSqlite3.Database) => void;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+  backupPath: string | null;
+  /** File size in bytes before and after, when any migration was applied. */
+  sizeBefore: number | null;
+  sizeAfter: number | null;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS property_meta (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          site_url TEXT UNIQUE NOT NULL,
+          permission_level TEXT,
+          last_synced_at TEXT,
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+
+        CREATE TABLE IF NOT EXISTS search_analytics (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT NOT NULL,
+          query TEXT,
+          page TEXT,
+          device TEXT,
+          country TEXT,
+          search_appearance TEXT,
+          clicks INTEGER NOT NULL DEFAULT 0,
+          impressions INTEGER NOT NULL DEFAULT 0,
+          ctr REAL NOT NULL DEFAULT 0,
+          position REAL NOT NULL DEFAULT 0,
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+
+        -- Single-column indexes for standalone filtering
+        CREATE INDEX IF NOT EXISTS idx_sa_date ON search_analytics(date);
+        CREATE INDEX IF NOT EXISTS idx_sa_query ON search_analytics(query);
+        CREATE INDEX IF NOT EXISTS idx_sa_page ON search_analytics(page);
+        CREATE INDEX IF NOT EXISTS idx_sa_clicks ON search_analytics(clicks DESC);
+        CREATE INDEX IF NOT EXISTS idx_sa_impressions ON search_analytics(impressions DESC);
+
+        -- Composite indexes for dashboard query patterns
+        CREATE INDEX IF NOT EXISTS idx_sa_date_query ON search_analytics(date, query, clicks, impressions, position);
+        CREATE INDEX IF NOT EXISTS idx_sa_date_page ON search_analytics(date, page, clicks, impressions, position);
+        CREATE INDEX IF NOT EXISTS idx_sa_date_country ON search_analytics(date, country, clicks, impressions);
+        CREATE INDEX IF NOT EXISTS idx_sa_query_date ON search_analytics(query, date);
+
+        -- Covering index for summary aggregations
+        CREATE INDEX IF NOT EXISTS idx_sa_date_metrics ON search_analytics(date, clicks, impressions, ctr, position);
+
+        CREATE TABLE IF NOT EXISTS sync_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          sync_type TEXT NOT NULL,
+          dimensions TEXT NOT NULL,
+          date_from TEXT,
+          date_to TEXT,
+          rows_fetched INTEGER DEFAULT 0,
+          rows_inserted INTEGER DEFAULT 0,
+          status TEXT DEFAULT 'running',
+          error_message TEXT,
+          started_at TEXT DEFAULT (datetime('now')),
+          completed_at TEXT
+        );
+      `);
+    },
+  },
+  {
+    // Rows fetched before search types were tracked were always web rows,
+    // so they keep the column default.
+    version: 2,
+    name: 'search_type_column',
+    backup: true,
+    up: (db) => {
+      if (!hasColumn(db, 'search_analytics', 'search_type')) {
+        db.exec(`ALTER TABLE search_analytics ADD COLUMN search_type TEXT NOT NULL DEFAULT 'web'`);
+      }
+      db.exec(`
+        -- Primary uniqueness constraint (also serves as composite index for date-first lookups)
+        DROP INDEX IF EXISTS idx_sa_unique;
+        CREATE UNIQUE INDEX idx_sa_unique
+          ON search_analytics(date, query, page, device, country, search_type);
+      `);
+    },
+  },
+  {
+    // The API only returns searchAppearance in its own pass, so these rows
+    // live apart from search_analytics and never add to its totals.
+    version: 3,
+    name: 'search_appearance_analytics',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS search_appearance_analytics (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT NOT NULL,
+          search_appearance TEXT NOT NULL,
+          search_type TEXT NOT NULL DEFAULT 'web',
+          clicks INTEGER NOT NULL DEFAULT 0,
+          impressions INTEGER NOT NULL DEFAULT 0,
+          ctr REAL NOT NULL DEFAULT 0,
+          position REAL NOT NULL DEFAULT 0,
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_sap_unique
+          ON search_appearance_analytics(date, search_appearance, search_type);
+      `);
+    },
+  },
+  {
+    // Aggregates fetched without the query dimension include the clicks GSC
+    // hides as anonymized queries, so they match the Search Console UI.
+    version: 4,
+    name: 'totals_tables',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS totals_daily (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT NOT NULL,
+          search_type TEXT NOT NULL DEFAULT 'web',
+          clicks INTEGER NOT NULL DEFAULT 0,
+          impressions INTEGER NOT NULL DEFAULT 0,
+          ctr REAL NOT NULL DEFAULT 0,
+          position REAL NOT NULL DEFAULT 0
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_td_unique ON totals_daily(date, search_type);
+      `);
+      for (const column of ['page', 'device', 'country']) {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS totals_${column} (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            date TEXT NOT NULL,
+            ${column} TEXT NOT NULL,
+            search_type TEXT NOT NULL DEFAULT 'web',
+            clicks INTEGER NOT NULL DEFAULT 0,
+            impressions INTEGER NOT NULL DEFAULT 0,
+            ctr REAL NOT NULL DEFAULT 0,
+            position REAL NOT NULL DEFAULT 0
+          );
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_t${column[0]}_unique ON totals_${column}(date, ${column}, search_type);
+        `);
+      }
+    },
+  },
+  {
+    // Rows synced before this were never tagged; treat them as final and
+    // let the incremental lookback re-fetch the most recent days.
+    version: 5,
+    name: 'data_state_columns',
+    up: (db) => {
+      const tables = ['search_analytics', 'search_appearance_analytics', 'totals_daily', 'totals_page', 'totals_device', 'totals_country'];
+      for (const table of tables) {
+        if (!hasColumn(db, table, 'data_state')) {
+          db.exec(`ALTER TABLE ${table} ADD COLUMN data_state TEXT NOT NULL DEFAULT 'final'`);
+        }
+      }
+      // Partial index: only the last few days are ever fresh
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_sa_fresh ON search_analytics(search_type, date) WHERE data_state = 'fresh'`);
+    },
+  },
+  {
+    // Links each log entry to the sync job that wrote it, so entries left
+    // 'running' by a process that died can be told apart from live ones.
+    version: 6,
+    name: 'sync_log_job_id',
+    up: (db) => {
+      if (!hasColumn(db, 'sync_log', 'job_id')) {
+        db.exec(`ALTER TABLE sync_log ADD COLUMN job_id TEXT`);
+      }
+    },
+  },
+  {
+    // One row per inspection rather than per page, so index status
+    // history survives re-inspection.
+    version: 7,
+    name: 'url_inspection',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS url_inspection (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          page TEXT NOT NULL,
+          inspected_at TEXT NOT NULL DEFAULT (datetime('now')),
+          verdict TEXT,
+          coverage_state TEXT,
+          indexing_state TEXT,
+          robots_txt_state TEXT,
+          page_fetch_state TEXT,
+          last_crawl_time TEXT,
+          crawled_as TEXT,
+          google_canonical TEXT,
+          user_canonical TEXT,
+          mobile_usability_verdict TEXT,
+          mobile_usability_issues TEXT,
+          rich_results_verdict TEXT,
+          inspection_link TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_ui_page ON url_inspection(page, inspected_at);
+        CREATE INDEX IF NOT EXISTS idx_ui_inspected_at ON url_inspection(inspected_at);
+      `);
+    },
+  },
+  {
+    // Sitemaps API counts describe the moment they were fetched, so each
+    // sync appends a snapshot per sitemap.
+    version: 8,
+    name: 'sitemap_snapshots',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sitemap_snapshots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          captured_at TEXT NOT NULL DEFAULT (datetime('now')),
+          path TEXT NOT NULL,
+          type TEXT,
+          is_index INTEGER NOT NULL DEFAULT 0,
+          is_pending INTEGER NOT NULL DEFAULT 0,
+          last_submitted TEXT,
+          last_downloaded TEXT,
+          warnings INTEGER NOT NULL DEFAULT 0,
+          errors INTEGER NOT NULL DEFAULT 0,
+          submitted INTEGER NOT NULL DEFAULT 0,
+          indexed INTEGER NOT NULL DEFAULT 0,
+          contents TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_ss_path ON sitemap_snapshots(path, captured_at);
+      `);
+    },
+  },
+  {
+    // Building rollups for an existing multi-GB database would stall
+    // whatever opened it, so they start unbuilt unless there is no data;
+    // rebuild_rollups or the daemon fills them.
+    version: 9,
+    name: 'rollup_tables',
+    up: (db) => {
+      createRollupTables(db);
+      const hasRows = db.prepare('SELECT 1 FROM search_analytics LIMIT 1').get();
+      if (!hasRows) {
+        db.exec(`INSERT OR IGNORE INTO rollup_state (id, built_at) VALUES (1, datetime('now'))`);
+      }
+    },
+  },
+  {
+    // Each query and page string is stored once and the fact rows hold
+    // integer ids, which shrinks both the rows and every index on them.
+    // search_analytics becomes a view with the old columns so existing
+    // SQL keeps working; writes go to search_facts.
+    version: 10,
+    name: 'dictionary_encode_queries_pages',
+    backup: true,
+    vacuum: true,
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS queries (
+          id INTEGER PRIMARY KEY,
+          query TEXT NOT NULL UNIQUE
+        );
+        CREATE TABLE IF NOT EXISTS pages (
+          id INTEGER PRIMARY KEY,
+          page TEXT NOT NULL UNIQUE
+        );
+
+        CREATE TABLE IF NOT EXISTS search_facts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT NOT NULL,
+          query_id INTEGER REFERENCES queries(id),
+          page_id INTEGER REFERENCES pages(id),
+          device TEXT,
+          country TEXT,
+          search_appearance TEXT,
+          search_type TEXT NOT NULL DEFAULT 'web',
+          data_state TEXT NOT NULL DEFAULT 'final',
+          clicks INTEGER NOT NULL DEFAULT 0,
+          impressions INTEGER NOT NULL DEFAULT 0,
+          ctr REAL NOT NULL DEFAULT 0,
+          position REAL NOT NULL DEFAULT 0,
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+      `);
+
+      const isTable = db.prepare(
+        `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'search_analytics'`
+      ).get();
+      if (isTable) {
+        db.exec(`
+          INSERT OR IGNORE INTO queries (query)
+            SELECT DISTINCT query FROM search_analytics WHERE query IS NOT NULL;
+          INSERT OR IGNORE INTO pages (page)
+            SELECT DISTINCT page FROM search_analytics WHERE page IS NOT NULL;
+
+          INSERT INTO search_facts (
+            id, date, query_id, page_id, device, country, search_appearance, search_type, data_state,
+            clicks, impressions, ctr, position, created_at
+          )
+          SELECT sa.id, sa.date, q.id, p.id, sa.device, sa.country, sa.search_appearance, sa.search_type, sa.data_state,
+            sa.clicks, sa.impressions, sa.ctr, sa.position, sa.created_at
+          FROM search_analytics sa
+          LEFT JOIN queries q ON q.query = sa.query
+          LEFT JOIN pages p ON p.page = sa.page;
+
+          DROP TABLE search_analytics;
+        `);
+      }
+
+      db.exec(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_sf_unique
+          ON search_facts(date, query_id, page_id, device, country, search_type);
+        CREATE INDEX IF NOT EXISTS idx_sf_date_query ON search_facts(date, query_id, clicks, impressions, position);
+        CREATE INDEX IF NOT EXISTS idx_sf_date_page ON search_facts(date, page_id, clicks, impressions, position);
+        CREATE INDEX IF NOT EXISTS idx_sf_date_country ON search_facts(date, country, clicks, impressions);
+        CREATE INDEX IF NOT EXISTS idx_sf_query_date ON search_facts(query_id, date);
+        CREATE INDEX IF NOT EXISTS idx_sf_page ON search_facts(page_id);
+        CREATE INDEX IF NOT EXISTS idx_sf_date_metrics ON search_facts(date, clicks, impressions, ctr, position);
+        CREATE INDEX IF NOT EXISTS idx_sf_fresh ON search_facts(search_type, date) WHERE data_state = 'fresh';
+
+        -- LEFT JOINs on primary keys are dropped when a query doesn't
+        -- touch query or page, so date/metric scans cost the same as before
+        CREATE VIEW IF NOT EXISTS search_analytics AS
+          SELECT f.id, f.date, q.query, p.page, f.device, f.country, f.search_appearance,
+            f.search_type, f.data_state, f.clicks, f.impressions, f.ctr, f.position, f.created_at
+          FROM search_facts f
+          LEFT JOIN queries q ON q.id = f.query_id
+          LEFT JOIN pages p ON p.id = f.page_id;
+      `);
+    },
+  },
+  {
+    // Side table that restore_archive loads archived months into. Plain
+    // strings rather than dictionary ids: it is only read by custom SQL
+    // and emptied whenever the user likes.
+    version: 11,
+    name: 'search_analytics_archive',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS search_analytics_archive (
+          id INTEGER PRIMARY KEY,
+          date TEXT NOT NULL,
+          query TEXT,
+          page TEXT,
+          device TEXT,
+          country TEXT,
+          search_appearance TEXT,
+          search_type TEXT NOT NULL DEFAULT 'web',
+          data_state TEXT NOT NULL DEFAULT 'final',
+          clicks INTEGER NOT NULL DEFAULT 0,
+          impressions INTEGER NOT NULL DEFAULT 0,
+          ctr REAL NOT NULL DEFAULT 0,
+          position REAL NOT NULL DEFAULT 0,
+          restored_at TEXT DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS idx_saa_date ON search_analytics_archive(date);
+      `);
+    },
+  },
+  {
+    // Clicks and impressions of rows the retention policy deletes, summed
+    // per date, page and country so property totals survive pruning.
+    // position is impression-weighted, like the rollup tables.
+    version: 12,
+    name: 'longtail_remainder',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS longtail_remainder (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT NOT NULL,
+          page TEXT,
+          country TEXT,
+          search_type TEXT NOT NULL DEFAULT 'web',
+          clicks INTEGER NOT NULL DEFAULT 0,
+          impressions INTEGER NOT NULL DEFAULT 0,
+          position REAL NOT NULL DEFAULT 0,
+          rows_merged INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_ltr_unique ON longtail_remainder(date, page, country, search_type);
+      `);
+    },
+  },
+  {
+    // The property's own retention policy; no row means the defaults.
+    // List settings are JSON arrays.
+    version: 13,
+    name: 'retention_policy',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS retention_policy (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          enabled INTEGER NOT NULL DEFAULT 1,
+          recent_days INTEGER NOT NULL,
+          target_min_impressions INTEGER NOT NULL,
+          prune_non_target_zero_clicks INTEGER NOT NULL,
+          target_countries TEXT NOT NULL,
+          protected_pages TEXT NOT NULL DEFAULT '[]',
+          protected_queries TEXT NOT NULL DEFAULT '[]',
+          archive INTEGER NOT NULL DEFAULT 1,
+          updated_at TEXT DEFAULT (datetime('now'))
+        );
+      `);
+    },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring a database up to LATEST_VERSION.
+ *
+ * Databases created before versioning have no schema_version table; they
+ * start at version 0 and every migration is written to be safe against
+ * tables and indexes that already exist.
+ */
+export function runMigrations(db: BetterSqlite3.Database, dbPath: string): MigrationResult {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT DEFAULT (datetime('now'))
+    );
+  `);
+
+  const fromVersion = getSchemaVersion(db);
+  if (fromVersion > LATEST_VERSION) {
+    throw new Error(
+      `Database ${dbPath} is at schema version ${fromVersion}, but this build only knows up to ${LATEST_VERSION}. Upgrade better-search-console.`
+    );
+  }
+
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion);
+  const result: MigrationResult = {
+    fromVersion,
+    toVersion: fromVersion,
+    applied: [],
+    backupPath: null,
+    sizeBefore: null,
+    sizeAfter: null,
+  };
+  if (pending.length === 0) return result;
+  const sizeBefore = databaseSize(db);
+  let vacuum = false;
+
+  if (pending.some(m => m.backup) && hasData(db)) {
+    result.backupPath = backupDatabase(db, dbPath, fromVersion);
+  }
+
+  for (const migration of pending) {
+    const apply = db.transaction(() => {
+      // Another process may have migrated while we waited for the write lock
+      if (getSchemaVersion(db) >= migration.version) return false;
+      migration.up(db);
+      db.prepare('INSERT INTO schema_version (version, name) VALUES (?, ?)').run(migration.version, migration.name);
+      return true;
+    });
+
+    if (apply.immediate()) {
+      console.error(`[Migrate] ${dbPath}: applied v${migration.version} ${migration.name}`);
+      result.applied.push(`v${migration.version} ${migration.name}`);
+      vacuum ||= !!migration.vacuum;
+    }
+    result.toVersion = migration.version;
+  }
+
+  if (result.applied.length > 0) {
+    // VACUUM can't run inside a transaction, so it waits for the last migration
+    if (vacuum && hasData(db)) {
+      console.error(`[Migrate] ${dbPath}: reclaiming space with VACUUM...`);
+      db.exec('VACUUM');
+      db.exec('ANALYZE');
+    }
+    result.sizeBefore = sizeBefore;
+    result.sizeAfter = databaseSize(db);
+    // Whatever opens the database first applies its migrations, not only
+    // migrate_databases, so the size change is logged here for every caller
+    console.error(
+      `[Migrate] ${dbPath}: v${result.fromVersion} -> v${result.toVersion}, ` +
+      `${(result.sizeBefore / 1024 / 1024).toFixed(1)} MB -> ${(result.sizeAfter / 1024 / 1024).toFixed(1)} MB` +
+      (result.backupPath ? `, backup at ${result.backupPath}` : '')
+    );
+  }
+
+  return result;
+}
+
+export function getSchemaVersion(db: BetterSqlite3.Database): number {
+  const row = db.prepare('SELECT MAX(version) as version FROM schema_version').get() as any;
+  return row?.version ?? 0;
+}
+
+export function hasColumn(db: BetterSqlite3.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return columns.some(c => c.name === column);
+}
+
+function databaseSize(db: BetterSqlite3.Database): number {
+  const pageCount = (db.prepare('PRAGMA page_count').get() as any).page_count;
+  const pageSize = (db.prepare('PRAGMA page_size').get() as any).page_size;
+  return pageCount * pageSize;
+}
+
+function hasData(db: BetterSqlite3.Database): boolean {
+  // A table before v10, a view over search_facts from then on
+  const table = db.prepare(
+    `SELECT 1 FROM sqlite_master WHERE type IN ('table', 'view') AND name = 'search_analytics' LIMIT 1`
+  ).get();
+  return !!table && !!db.prepare('SELECT 1 FROM search_analytics LIMIT 1').get();
+}
+
+/**
+ * Write a consistent copy of the database next to the original.
+ * VACUUM INTO works on a live WAL database and produces a compacted file.
+ */
+function backupDatabase(db: BetterSqlite3.Database, dbPath: string, fromVersion: number): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = `${dbPath}.v${fromVersion}-${stamp}.bak`;
+  console.error(`[Migrate] Backing up ${dbPath} to ${backupPath} before schema upgrade...`);
+  db.prepare('VACUUM INTO ?').run(backupPath);
+  return backupPath;
+}
@@ -0,0 +1,181 @@
+import { createServer } from 'http';
+import { randomBytes } from 'node:crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { google, Auth } from 'googleapis';
+import { getDataDir, sanitizeSiteUrl } from '../tools/helpers.js';
+
+export const OAUTH_SCOPES = [
+  'https://www.googleapis.com/auth/webmasters.readonly',
+  // openid + email identify which user signed in
+  'openid',
+  'email',
+];
+
+const LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface StoredOAuthToken {
+  email: string;
+  refresh_token: string;
+  access_token?: string | null;
+  expiry_date?: number | null;
+  scope?: string;
+  token_type?: string | null;
+}
+
+export interface OAuthLogin {
+  /** Open this in a browser signed in to the Google account to add. */
+  authUrl: string;
+  /** Resolves once Google redirects back and the token is saved. */
+  completion: Promise<{ email: string; tokenFile: string }>;
+}
+
+/** Refresh tokens live here, one file per signed-in user. */
+export function getOAuthTokenDir(): string {
+  return join(getDataDir(), 'oauth');
+}
+
+export function listOAuthTokenFiles(): string[] {
+  const dir = getOAuthTokenDir();
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .sort()
+    .map(name => join(dir, name));
+}
+
+export function readOAuthToken(tokenFile: string): StoredOAuthToken {
+  return JSON.parse(readFileSync(tokenFile, 'utf-8'));
+}
+
+/**
+ * Read the client ID and secret from an OAuth client JSON file as
+ * downloaded from Google Cloud Console ("Desktop app" client type).
+ */
+export function readOAuthClient(clientFile: string): { clientId: string; clientSecret: string } {
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(clientFile, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Could not read OAuth client file ${clientFile}: ${err instanceof Error ? err.message : err}`);
+  }
+  const client = raw.installed ?? raw.web ?? raw;
+  if (!client?.client_id || !client?.client_secret) {
+    throw new Error(`OAuth client file ${clientFile} has no client_id/client_secret. Download a "Desktop app" OAuth client from Google Cloud Console.`);
+  }
+  return { clientId: client.client_id, clientSecret: client.client_secret };
+}
+
+/**
+ * OAuth2 client for a user. Without a token file it stays signed out until
+ * applyOAuthToken is called, so a server can start before anyone logs in.
+ */
+export function createOAuthClient(clientFile: string, tokenFile: string | null): Auth.OAuth2Client {
+  const { clientId, clientSecret } = readOAuthClient(clientFile);
+  const client = new google.auth.OAuth2(clientId, clientSecret);
+  if (tokenFile) applyOAuthToken(client, tokenFile);
+  return client;
+}
+
+/** Sign a client in with a saved token and keep the file current as it refreshes. */
+export function applyOAuthToken(client: Auth.OAuth2Client, tokenFile: string): void {
+  const stored = readOAuthToken(tokenFile);
+  client.setCredentials(stored);
+  client.removeAllListeners('tokens');
+  client.on('tokens', (tokens) => {
+    // Google only sends a refresh token on first consent, so keep the old one
+    saveOAuthToken(tokenFile, { ...stored, ...dropNulls(tokens), refresh_token: tokens.refresh_token ?? stored.refresh_token });
+  });
+}
+
+/**
+ * Installed-app login over a loopback redirect (with PKCE). Starts a
+ * one-shot HTTP listener on 127.0.0.1 and returns the URL to open; the
+ * listener shuts down after the redirect or LOGIN_TIMEOUT_MS.
+ */
+export async function startOAuthLogin(clientFile: string): Promise<OAuthLogin> {
+  const { clientId, clientSecret } = readOAuthClient(clientFile);
+  const state = randomBytes(16).toString('hex');
+
+  const server = createServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve());
+  });
+  const port = (server.address() as { port: number }).port;
+  const redirectUri = `http://127.0.0.1:${port}`;
+
+  const client = new google.auth.OAuth2(clientId, clientSecret, redirectUri);
+  const { codeVerifier, codeChallenge } = await client.generateCodeVerifierAsync();
+  const authUrl = client.generateAuthUrl({
+    access_type: 'offline',
+    // Force the consent screen so Google returns a refresh token
+    prompt: 'consent',
+    scope: OAUTH_SCOPES,
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: Auth.CodeChallengeMethod.S256,
+  });
+
+  const completion = new Promise<{ email: string; tokenFile: string }>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      server.close();
+      reject(new Error('OAuth login timed out before Google redirected back.'));
+    }, LOGIN_TIMEOUT_MS);
+
+    server.on('request', async (req, res) => {
+      const url = new URL(req.url ?? '/', redirectUri);
+      if (url.pathname !== '/') {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const finish = (status: number, message: string, error?: Error) => {
+        res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' }).end(message);
+        clearTimeout(timeout);
+        server.close();
+        if (error) reject(error);
+      };
+
+      try {
+        if (url.searchParams.get('state') !== state) {
+          throw new Error('OAuth state mismatch; ignoring the redirect.');
+        }
+        const denied = url.searchParams.get('error');
+        if (denied) throw new Error(`Google returned "${denied}".`);
+        const code = url.searchParams.get('code');
+        if (!code) throw new Error('Redirect had no authorization code.');
+
+        const { tokens } = await client.getToken({ code, codeVerifier });
+        if (!tokens.refresh_token) {
+          throw new Error('Google did not return a refresh token. Remove the app at https://myaccount.google.com/permissions and try again.');
+        }
+        const ticket = await client.verifyIdToken({ idToken: tokens.id_token!, audience: clientId });
+        const email = ticket.getPayload()?.email;
+        if (!email) throw new Error('Could not read the signed-in email address.');
+
+        const tokenFile = join(getOAuthTokenDir(), sanitizeSiteUrl(email) + '.json');
+        saveOAuthToken(tokenFile, { ...dropNulls(tokens), email, refresh_token: tokens.refresh_token });
+        finish(200, `Signed in as ${email}. You can close this tab.`);
+        resolve({ email, tokenFile });
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        finish(400, `Sign-in failed: ${error.message}`, error);
+      }
+    });
+  });
+
+  return { authUrl, completion };
+}
+
+function saveOAuthToken(tokenFile: string, token: StoredOAuthToken): void {
+  mkdirSync(getOAuthTokenDir(), { recursive: true });
+  const { id_token: _idToken, ...rest } = token as StoredOAuthToken & { id_token?: string };
+  writeFileSync(tokenFile, JSON.stringify(rest, null, 2), { mode: 0o600 });
+  // mode only applies when the file is created
+  chmodSync(tokenFile, 0o600);
+}
+
+function dropNulls<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== null && v !== undefined)) as Partial<T>;
+}
@@ -0,0 +1,170 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import { addDays } from '../tools/helpers.js';
+
+/**
+ * Pre-aggregated copies of search_analytics per query, page, country and
+ * device at day, week (Monday start) and month grain.
+ *
+ * Rollup tables use the same column names as search_analytics, with `date`
+ * holding the first day of the period and `position` the impression-weighted
+ * average, so `SUM(position * impressions)` still gives the weighted total.
+ * They mirror search_analytics exactly: whenever rows there change, the
+ * affected periods are recomputed from it.
+ */
+
+export type RollupDimension = 'query' | 'page' | 'country' | 'device';
+export type RollupGrain = 'day' | 'week' | 'month';
+
+export const ROLLUP_DIMENSIONS: RollupDimension[] = ['query', 'page', 'country', 'device'];
+export const ROLLUP_GRAINS: RollupGrain[] = ['day', 'week', 'month'];
+
+/** A stretch of dates read from one grain's table. */
+export interface RollupSegment {
+  grain: RollupGrain;
+  from: string;
+  to: string;
+}
+
+export function rollupTable(dimension: RollupDimension, grain: RollupGrain): string {
+  return `rollup_${dimension}_${grain}`;
+}
+
+export function createRollupTables(db: BetterSqlite3.Database): void {
+  for (const dimension of ROLLUP_DIMENSIONS) {
+    for (const grain of ROLLUP_GRAINS) {
+      const table = rollupTable(dimension, grain);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${table} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT NOT NULL,
+          ${dimension} TEXT NOT NULL,
+          search_type TEXT NOT NULL DEFAULT 'web',
+          clicks INTEGER NOT NULL DEFAULT 0,
+          impressions INTEGER NOT NULL DEFAULT 0,
+          ctr REAL NOT NULL DEFAULT 0,
+          position REAL NOT NULL DEFAULT 0
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_unique ON ${table}(date, ${dimension}, search_type);
+      `);
+    }
+  }
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS rollup_state (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      built_at TEXT
+    );
+  `);
+}
+
+/**
+ * Recompute every rollup period that overlaps from..to. Day rollups come
+ * from search_analytics; weeks and months from the day rollups.
+ */
+export function refreshRollups(db: BetterSqlite3.Database, from: string, to: string): void {
+  const refresh = db.transaction(() => {
+    for (const grain of ROLLUP_GRAINS) {
+      const start = periodStart(grain, from);
+      const end = periodEnd(grain, to);
+      for (const dimension of ROLLUP_DIMENSIONS) {
+        const table = rollupTable(dimension, grain);
+        const source = grain === 'day' ? 'search_analytics' : rollupTable(dimension, 'day');
+        db.prepare(`DELETE FROM ${table} WHERE date BETWEEN ? AND ?`).run(start, end);
+        db.prepare(`
+          INSERT INTO ${table} (date, ${dimension}, search_type, clicks, impressions, ctr, position)
+          SELECT ${periodStartSQL(grain)} as period, ${dimension}, search_type,
+            SUM(clicks), SUM(impressions),
+            COALESCE(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 0),
+            COALESCE(SUM(position * impressions) / NULLIF(SUM(impressions), 0), 0)
+          FROM ${source}
+          WHERE date BETWEEN ? AND ? AND ${dimension} IS NOT NULL
+          GROUP BY period, ${dimension}, search_type
+        `).run(start, end);
+      }
+    }
+  });
+  refresh();
+}
+
+/** Drop and recompute every rollup, then mark them ready for reads. */
+export function rebuildRollups(db: BetterSqlite3.Database): void {
+  const range = db.prepare('SELECT MIN(date) as min_date, MAX(date) as max_date FROM search_analytics').get() as any;
+  const rebuild = db.transaction(() => {
+    for (const dimension of ROLLUP_DIMENSIONS) {
+      for (const grain of ROLLUP_GRAINS) {
+        db.exec(`DELETE FROM ${rollupTable(dimension, grain)}`);
+      }
+    }
+    if (range?.min_date) refreshRollups(db, range.min_date, range.max_date);
+    db.prepare(`
+      INSERT INTO rollup_state (id, built_at) VALUES (1, datetime('now'))
+      ON CONFLICT(id) DO UPDATE SET built_at = excluded.built_at
+    `).run();
+  });
+  rebuild();
+}
+
+/**
+ * True once the rollups have been built from everything in
+ * search_analytics. Databases upgraded with data start unbuilt and are
+ * built by their next sync or by rebuild_rollups.
+ */
+export function rollupsReady(db: BetterSqlite3.Database): boolean {
+  const exists = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'rollup_state'`).get();
+  if (!exists) return false;
+  const row = db.prepare('SELECT built_at FROM rollup_state WHERE id = 1').get() as any;
+  return Boolean(row?.built_at);
+}
+
+/**
+ * Split from..to into the coarsest aligned periods: whole months, then
+ * whole weeks at either end, then single days. Never coarser than maxGrain.
+ */
+export function tileRange(from: string, to: string, maxGrain: RollupGrain = 'month'): RollupSegment[] {
+  if (from > to) return [];
+  const grains = ROLLUP_GRAINS.slice(0, ROLLUP_GRAINS.indexOf(maxGrain) + 1).reverse();
+  return tile(from, to, grains);
+}
+
+function tile(from: string, to: string, grains: RollupGrain[]): RollupSegment[] {
+  if (from > to) return [];
+  const [grain, ...finer] = grains;
+  if (grain === 'day' || !grain) return [{ grain: 'day', from, to }];
+
+  // First whole period starting on or after `from`, last one ending by `to`
+  const first = periodStart(grain, from) === from ? from : addDays(periodEnd(grain, from), 1);
+  const last = periodEnd(grain, to) === to ? to : addDays(periodStart(grain, to), -1);
+  if (first > last) return tile(from, to, finer);
+
+  return [
+    ...tile(from, addDays(first, -1), finer),
+    { grain, from: first, to: last },
+    ...tile(addDays(last, 1), to, finer),
+  ];
+}
+
+// --- Date helpers (YYYY-MM-DD, UTC) ---
+
+function periodStartSQL(grain: RollupGrain): string {
+  if (grain === 'week') return `date(date, '-6 days', 'weekday 1')`;
+  if (grain === 'month') return `strftime('%Y-%m-01', date)`;
+  return 'date';
+}
+
+function periodStart(grain: RollupGrain, date: string): string {
+  if (grain === 'month') return date.slice(0, 8) + '01';
+  if (grain === 'week') {
+    const day = new Date(date + 'T00:00:00Z').getUTCDay();
+    return addDays(date, -((day + 6) % 7));
+  }
+  return date;
+}
+
+function periodEnd(grain: RollupGrain, date: string): string {
+  if (grain === 'month') {
+    const d = new Date(date.slice(0, 8) + '01T00:00:00Z');
+    d.setUTCMonth(d.getUTCMonth() + 1, 0);
+    return d.toISOString().slice(0, 10);
+  }
+  if (grain === 'week') return addDays(periodStart('week', date), 6);
+  return date;
+}
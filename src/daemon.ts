@@ -0,0 +1,29 @@
+import { SyncManager } from './core/SyncManager.js';
+import { GscAccounts, hasCredentialConfig } from './core/credentials.js';
+import { Scheduler, getSchedulePath, loadScheduleConfig } from './core/Scheduler.js';
+import { buildMissingRollups } from './tools/rebuild-rollups.js';
+
+/**
+ * Headless mode: no MCP transport, just the scheduler keeping every
+ * property database up to date. Runs whether or not the schedule file
+ * sets "enabled", since starting the daemon is the opt-in.
+ */
+export function runDaemon(): void {
+  if (!hasCredentialConfig()) {
+    throw new Error('No Google credentials configured. Set GOOGLE_APPLICATION_CREDENTIALS (service account) or BSC_OAUTH_CLIENT_FILE (OAuth user login) or create accounts.json. See README for setup instructions.');
+  }
+
+  const schedule = loadScheduleConfig();
+  const syncManager = new SyncManager(GscAccounts.load());
+  // No tool calls wait on the daemon, so it can build rollups that
+  // upgraded databases are missing
+  syncManager.recoverSyncLogs().then(() => {
+    for (const report of buildMissingRollups()) {
+      console.error(report.status === 'rebuilt'
+        ? `[Rollups] ${report.file}: built in ${(report.durationMs / 1000).toFixed(1)}s`
+        : `[Rollups] ${report.file}: failed: ${report.error}`);
+    }
+  });
+  new Scheduler(syncManager, schedule, true).start();
+  console.error(`[BSC] Daemon running with schedule from ${getSchedulePath()}`);
+}
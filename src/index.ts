@@ -1,13 +1,36 @@
 #!/usr/bin/env node
 
 import { createServer } from './server.js';
+import { runDaemon } from './daemon.js';
+import { runLogin } from './login.js';
 
-const { run } = createServer();
+// `better-search-console daemon` runs scheduled syncs without an MCP client;
+// `better-search-console auth` signs in a Google user for OAuth access
+const mode = process.argv[2];
 
-run().catch((error) => {
-  console.error('[BSC] Fatal error:', error);
-  process.exit(1);
-});
+if (mode === 'auth') {
+  runLogin().then(
+    () => process.exit(0),
+    (error) => {
+      console.error('[BSC] Sign-in failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  );
+} else if (mode === 'daemon') {
+  try {
+    runDaemon();
+  } catch (error) {
+    console.error('[BSC] Fatal error:', error);
+    process.exit(1);
+  }
+} else {
+  const { run } = createServer();
+
+  run().catch((error) => {
+    console.error('[BSC] Fatal error:', error);
+    process.exit(1);
+  });
+}
 
 function shutdown() {
   console.error('[BSC] Shutting down gracefully...');
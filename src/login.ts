@@ -0,0 +1,19 @@
+import { startOAuthLogin } from './core/oauth.js';
+
+/**
+ * `better-search-console auth`: sign a Google user in from the terminal.
+ * The browser must run on this machine, since Google redirects to a
+ * loopback address.
+ */
+export async function runLogin(): Promise<void> {
+  const clientFile = process.env.BSC_OAUTH_CLIENT_FILE;
+  if (!clientFile) {
+    throw new Error('BSC_OAUTH_CLIENT_FILE is not set. Point it at a "Desktop app" OAuth client JSON from Google Cloud Console.');
+  }
+
+  const { authUrl, completion } = await startOAuthLogin(clientFile);
+  console.error('Open this URL in a browser on this machine and approve access:\n');
+  console.error(`  ${authUrl}\n`);
+  const { email, tokenFile } = await completion;
+  console.error(`Signed in as ${email}. Refresh token saved to ${tokenFile}`);
+}
@@ -10,15 +10,24 @@ import fs from 'node:fs/promises';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
-import { GscClient } from './core/GscClient.js';
+import { GscAccounts, hasCredentialConfig } from './core/credentials.js';
+import { startOAuthLogin } from './core/oauth.js';
 import { SyncManager } from './core/SyncManager.js';
 import { DataRetention } from './core/DataRetention.js';
+import { Scheduler, loadScheduleConfig } from './core/Scheduler.js';
 import { listProperties } from './tools/list-properties.js';
 import { queryData } from './tools/query-data.js';
 import { getInsights } from './tools/get-insights.js';
 import { comparePeriods } from './tools/compare-periods.js';
 import { getDashboardData } from './tools/get-dashboard.js';
 import { getOverviewData } from './tools/get-overview.js';
+import { migrateDatabases } from './tools/migrate-databases.js';
+import { findDataGaps, backfillArgs } from './tools/find-data-gaps.js';
+import { inspectUrls } from './tools/inspect-urls.js';
+import { sitemapCoverage } from './tools/sitemap-coverage.js';
+import { rebuildRollups } from './tools/rebuild-rollups.js';
+import { restoreArchive } from './tools/restore-archive.js';
+import { forecastTraffic } from './tools/forecast.js';
 import { asciiSparkline, formatCompact, formatChange } from './tools/helpers.js';
 
 const SERVER_NAME = 'better-search-console';
@@ -28,13 +37,13 @@ const SERVER_VERSION = '1.0.4';
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 export function createServer(): { server: McpServer; run: () => Promise<void> } {
-  const credentialsPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
-  if (!credentialsPath) {
-    throw new Error('GOOGLE_APPLICATION_CREDENTIALS environment variable is not set. See README for setup instructions.');
+  if (!hasCredentialConfig()) {
+    throw new Error('No Google credentials configured. Set GOOGLE_APPLICATION_CREDENTIALS (service account), BSC_OAUTH_CLIENT_FILE (OAuth user login) or create accounts.json. See README for setup instructions.');
   }
 
-  const gscClient = new GscClient(credentialsPath);
-  const syncManager = new SyncManager(gscClient);
+  // Each property's API calls go through the account that owns it
+  const accounts = GscAccounts.load();
+  const syncManager = new SyncManager(accounts);
 
   const server = new McpServer(
     { name: SERVER_NAME, version: SERVER_VERSION },
@@ -65,7 +74,7 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
     async () => {
       try {
         // Step 1: List properties to show what we found
-        const properties = await listProperties(gscClient);
+        const properties = await listProperties(accounts);
 
         if (properties.length === 0) {
           return {
@@ -98,7 +107,7 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
         }
 
         // Step 4: Generate the overview
-        const overviewData = await getOverviewData(gscClient, { dateRange: '3m', sortBy: 'clicks' });
+        const overviewData = await getOverviewData(accounts, { dateRange: '3m', sortBy: 'clicks' });
 
         // Build a helpful text summary
         const lines: string[] = [
@@ -158,12 +167,14 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
         dateRange: z.string().optional().describe('Date range: "7d", "28d", "3m", "6m", "12m", "16m". Default: "28d".'),
         sortBy: z.enum(['alpha', 'clicks', 'impressions', 'ctr', 'position']).optional().describe('Sort order for property cards. Default: "alpha".'),
         search: z.string().optional().describe('Filter properties by domain name substring.'),
+        searchType: z.enum(['web', 'discover', 'googleNews', 'image', 'video']).optional().describe('Search type to report on. Default: web.'),
+        positionMethod: z.enum(['weighted', 'simple']).optional().describe('Average position: "weighted" by impressions, matching GSC (default), or "simple" row average for comparison with older reports.'),
       },
       _meta: { ui: { resourceUri: overviewResourceUri } },
     },
     async (args) => {
       try {
-        const data = await getOverviewData(gscClient, args);
+        const data = await getOverviewData(accounts, args);
 
         if (data.properties.length === 0) {
           return {
@@ -215,13 +226,16 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
     'get_dashboard',
     {
       title: 'Search Console Dashboard',
-      description: 'Drill into a single property. Shows an interactive dashboard with hero metrics, trend chart, top queries, top pages, country breakdown, ranking distribution, new/lost queries, and branded split. Use the siteUrl from get_overview results. Requires synced data — run setup first if needed.',
+      description: 'Drill into a single property. Shows an interactive dashboard with hero metrics, trend chart, top queries, top pages, country breakdown, ranking distribution, new/lost queries, search appearance, and branded split. Use the siteUrl from get_overview results. Requires synced data — run setup first if needed.',
       inputSchema: {
         siteUrl: z.string().describe('GSC property URL, e.g. "sc-domain:example.com". Get this from the overview or list_properties.'),
         dateRange: z.string().optional().describe('Date range: "7d", "28d", "3m", "6m", "12m", "16m", or named presets: "lw", "tm", "lm", "tq", "lq", "ytd". Default: "3m".'),
         comparisonMode: z.enum(['previous_period', 'year_over_year', 'previous_month', 'disabled']).optional().describe('Comparison mode. Default: "previous_period".'),
         matchWeekdays: z.boolean().optional().describe('Align comparison period to match weekday patterns. Default: false.'),
         brandTerms: z.array(z.string()).optional().describe('Brand terms for branded/non-branded split (e.g. ["mysite", "my site"]).'),
+        searchType: z.enum(['web', 'discover', 'googleNews', 'image', 'video']).optional().describe('Search type to report on. Default: web.'),
+        positionMethod: z.enum(['weighted', 'simple']).optional().describe('Average position: "weighted" by impressions, matching GSC (default), or "simple" row average for comparison with older reports.'),
+        forecastDays: z.number().int().min(30).max(180).optional().describe('Add a forecast of this many days to the trend chart, shown as a shaded band. See the forecast tool. Default: none.'),
       },
       _meta: { ui: { resourceUri: dashboardResourceUri } },
     },
@@ -247,9 +261,9 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
 
   server.tool(
     'get_insights',
-    'Run pre-built analytical queries against synced GSC data. Choose from 16 insight types: summary, top_queries, top_pages, growing_queries, declining_queries, growing_pages, declining_pages, opportunities (queries ranking 5-20 with high impressions — your quick wins), device_breakdown, country_breakdown, page_queries, query_pages, daily_trend, new_queries, lost_queries, branded_split. Requires synced data — run setup first if needed.',
+    'Run pre-built analytical queries against synced GSC data. Choose from 21 insight types: summary, top_queries, top_pages, growing_queries, declining_queries, growing_pages, declining_pages, opportunities (queries ranking 5-20 with high impressions — your quick wins), device_breakdown, country_breakdown, page_queries, query_pages, daily_trend, new_queries, lost_queries, branded_split, search_appearance_breakdown (clicks from rich results, videos, FAQ and other SERP features), cannibalization (queries where two or more of your pages compete, scored by how evenly clicks and impressions split and how often the top URL flips day to day; minImpressions sets the impressions a page needs to count, default 10), ctr_underperformers (query/page pairs whose CTR is well below what this property normally gets at that position and device, ranked by estimated missed clicks — titles and snippets to rewrite; brandTerms fits separate branded and non-branded curves, minImpressions default 100), uplift_forecast (extra clicks if the opportunities queries, or the queries you list, moved to targetPositions, default top 3 — per query, page and directory with low/high ranges and a summary ready for a proposal, using this property\'s own CTR curve), anomalies (days or weeks where clicks, impressions, CTR or position broke from the same weekday over the previous 8 weeks, each broken down by the pages, queries, devices and countries that drove it; omit siteUrl to scan every property and list events shared across sites). Requires synced data — run setup first if needed.',
     {
-      siteUrl: z.string().describe('GSC property URL.'),
+      siteUrl: z.string().optional().describe('GSC property URL. Required except for anomalies, which checks every synced property when omitted.'),
       insight: z.enum([
         'summary', 'top_queries', 'top_pages',
         'growing_queries', 'declining_queries',
@@ -257,16 +271,23 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
         'opportunities', 'device_breakdown', 'country_breakdown',
         'page_queries', 'query_pages', 'daily_trend',
         'new_queries', 'lost_queries', 'branded_split',
+        'search_appearance_breakdown', 'cannibalization', 'ctr_underperformers',
+        'uplift_forecast', 'anomalies',
       ]).describe('Insight type to run.'),
       dateRange: z.string().optional().describe('Date range: "7d", "28d", "3m", "6m", "12m", "16m". Default: "28d".'),
       pageFilter: z.string().optional().describe('Filter by URL path (uses LIKE). e.g. "/blog/"'),
       queryFilter: z.string().optional().describe('Filter by query text (uses LIKE).'),
       device: z.string().optional().describe('Filter by device: DESKTOP, MOBILE, TABLET.'),
       country: z.string().optional().describe('Filter by ISO country code.'),
-      brandTerms: z.array(z.string()).optional().describe('Brand terms for branded_split insight.'),
+      brandTerms: z.array(z.string()).optional().describe('Brand terms for branded_split, and to split the ctr_underperformers curve into branded and non-branded.'),
       limit: z.number().optional().describe('Max rows returned. Default: 50.'),
       minClicks: z.number().optional().describe('Minimum clicks threshold.'),
       minImpressions: z.number().optional().describe('Minimum impressions threshold.'),
+      searchType: z.enum(['web', 'discover', 'googleNews', 'image', 'video']).optional().describe('Search type to report on. Default: web.'),
+      positionMethod: z.enum(['weighted', 'simple']).optional().describe('Average position: "weighted" by impressions, matching GSC (default), or "simple" row average for comparison with older reports.'),
+      queries: z.array(z.string()).optional().describe('Exact queries for uplift_forecast. Default: the opportunities set.'),
+      targetPositions: z.array(z.number()).optional().describe('Positions uplift_forecast projects to, e.g. [1, 3]. Default: [3].'),
+      granularity: z.enum(['day', 'week']).optional().describe('Whether anomalies checks single days or whole Monday-Sunday weeks. Default: day.'),
     },
     async (args) => {
       try {
@@ -296,6 +317,8 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
       dimension: z.enum(['query', 'page', 'device', 'country']).optional().describe('Dimension to group by. Default: "query".'),
       limit: z.number().optional().describe('Max rows. Default: 50.'),
       pageFilter: z.string().optional().describe('Filter by URL path (uses LIKE).'),
+      searchType: z.enum(['web', 'discover', 'googleNews', 'image', 'video']).optional().describe('Search type to report on. Default: web.'),
+      positionMethod: z.enum(['weighted', 'simple']).optional().describe('Average position: "weighted" by impressions, matching GSC (default), or "simple" row average for comparison with older reports.'),
     },
     async (args) => {
       try {
@@ -313,15 +336,16 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
 
   server.tool(
     'query_gsc_data',
-    'Run a read-only SQL query against a synced GSC property database. Supports any SELECT query. INSERT/UPDATE/DELETE/DROP/ALTER/CREATE are blocked. The table is "search_analytics" with columns: date, query, page, device, country, clicks, impressions, ctr, position. Requires synced data — run setup first if needed.',
+    'Run a read-only SQL query against a synced GSC property database. Supports any SELECT query. INSERT/UPDATE/DELETE/DROP/ALTER/CREATE are blocked. The table is "search_analytics" with columns: date, query, page, device, country, search_type, clicks, impressions, ctr, position. It is a view over search_facts, which stores query_id and page_id keyed to the queries (id, query) and pages (id, page) lookup tables. Rows removed by pruning live in monthly archive files; pass archiveMonths to read those months as search_analytics_archive (same columns); they are loaded for that query only, without changing the database. search_type is one of web, discover, googleNews, image, video — filter on it to avoid mixing search types. Requires synced data — run setup first if needed.',
     {
       siteUrl: z.string().describe('GSC property URL.'),
       sql: z.string().describe('SQL SELECT query to run against the search_analytics table.'),
       params: z.array(z.any()).optional().describe('Optional parameterised query values.'),
+      archiveMonths: z.array(z.string()).optional().describe('Archived months (YYYY-MM) the query reads as search_analytics_archive, in place of anything restore_archive loaded.'),
     },
     async (args) => {
       try {
-        const result = queryData(args);
+        const result = await queryData(args);
         return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
       } catch (error) {
         return { content: [{ type: 'text', text: JSON.stringify({ error: (error as Error).message }) }], isError: true };
@@ -335,11 +359,11 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
 
   server.tool(
     'list_properties',
-    'List all Google Search Console properties accessible via the service account, with permission level and local sync status. Usually not needed — setup handles this automatically.',
+    'List all Google Search Console properties accessible to the configured credentials (service account and/or signed-in OAuth users), with permission level, the identities that can see each property, and local sync status. Usually not needed — setup handles this automatically.',
     {},
     async () => {
       try {
-        const properties = await listProperties(gscClient);
+        const properties = await listProperties(accounts);
         return { content: [{ type: 'text', text: JSON.stringify(properties, null, 2) }] };
       } catch (error) {
         return { content: [{ type: 'text', text: JSON.stringify({ error: (error as Error).message }) }], isError: true };
@@ -363,6 +387,7 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
         endDate: z.string().optional().describe('End date (YYYY-MM-DD). Defaults to today.'),
         dimensions: z.array(z.string()).optional().describe('Dimensions to fetch. Defaults to ["query","page","date","device","country"].'),
         searchType: z.enum(['web', 'discover', 'googleNews', 'image', 'video']).optional().describe('Search type filter. Default: web.'),
+        lookbackDays: z.number().int().min(0).optional().describe('Incremental syncs re-fetch this many days before the last synced date, plus any days still marked provisional. Default: 3 (or BSC_FRESH_LOOKBACK_DAYS).'),
       },
       _meta: { ui: { resourceUri: syncResourceUri } },
     },
@@ -398,6 +423,7 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
         endDate: z.string().optional().describe('End date (YYYY-MM-DD). Defaults to today.'),
         dimensions: z.array(z.string()).optional().describe('Dimensions to fetch. Defaults to ["query","page","date","device","country"].'),
         searchType: z.enum(['web', 'discover', 'googleNews', 'image', 'video']).optional().describe('Search type filter. Default: web.'),
+        lookbackDays: z.number().int().min(0).optional().describe('Incremental syncs re-fetch this many days before the last synced date, plus any days still marked provisional. Default: 3 (or BSC_FRESH_LOOKBACK_DAYS).'),
       },
       _meta: { ui: { resourceUri: syncResourceUri } },
     },
@@ -424,7 +450,7 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
 
   server.tool(
     'check_sync_status',
-    'Check the status of a background sync job. If no jobId provided, returns all active and recent jobs. Use after sync_gsc_data or sync_all_properties to monitor progress.',
+    'Check the status of a background sync job. If no jobId provided, returns all active and recent jobs. Use after sync_gsc_data or sync_all_properties to monitor progress. Each finished property lists provisionalDates: recent days GSC has not finalised yet, which the next sync fetches again. throttle shows how long the job has waited on the API rate limiter and the current limiter concurrency, which drops after rate-limit errors. Job history is kept across restarts; jobs cut short by a restart show as interrupted and can be continued with resume_sync.',
     {
       jobId: z.string().optional().describe('Job ID from sync_gsc_data or sync_all_properties. Omit to see all jobs.'),
     },
@@ -468,12 +494,15 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
 
   server.tool(
     'prune_database',
-    'Apply data retention policy to a synced property database. Removes low-value rows (zero clicks, low impressions) from older data while preserving all recent data and actionable historical data. Runs VACUUM afterwards to reclaim disk space. This runs automatically after each sync, but you can also trigger it manually. Use preview_prune first to see what would be deleted.',
+    'Apply data retention policy to a synced property database. Removes low-value rows (zero clicks, low impressions) from older data while preserving all recent data and actionable historical data. Removed rows are first written to gzipped monthly archive files, which restore_archive can load back. Runs VACUUM afterwards to reclaim disk space. This runs automatically after each sync, but you can also trigger it manually. Uses the property retention policy (see get_retention_policy); recentDays and targetMinImpressions override it for this run only. Use preview_prune first to see what would be deleted.',
     {
       siteUrl: z.string().describe('GSC property URL to prune.'),
-      recentDays: z.number().optional().describe('Days of recent data to keep in full (default: 90).'),
-      targetMinImpressions: z.number().optional().describe('For target countries: min impressions to keep zero-click rows (default: 5).'),
+      recentDays: z.number().optional().describe('Days of recent data to keep in full (default: the stored policy, normally 90).'),
+      targetMinImpressions: z.number().optional().describe('For target countries: min impressions to keep zero-click rows (default: the stored policy, normally 5).'),
       preview: z.boolean().optional().describe('If true, show what would be deleted without actually deleting. Default: false.'),
+      impact: z.boolean().optional().describe('If true, simulate the prune without deleting: per-month impressions, unique queries and pages and average position before and after, queries and pages that would vanish, and opportunities that would change. Default: false.'),
+      searchType: z.enum(['web', 'discover', 'googleNews', 'image', 'video']).optional().describe('Search type the impact simulation reports on. Default: web.'),
+      dateRange: z.string().optional().describe('Period for the opportunities comparison in the impact simulation. Default: "12m".'),
     },
     async (args) => {
       try {
@@ -481,6 +510,40 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
         if (args.recentDays !== undefined) policy.recentDays = args.recentDays;
         if (args.targetMinImpressions !== undefined) policy.targetMinImpressions = args.targetMinImpressions;
 
+        if (args.impact) {
+          const impact = DataRetention.simulate(args.siteUrl, policy, { searchType: args.searchType, dateRange: args.dateRange });
+          const change = (m: { before: number | null; after: number | null }) =>
+            m.before === m.after ? `${m.before ?? '-'}` : `${m.before ?? '-'} -> ${m.after ?? '-'}`;
+          const lines = [
+            `Prune impact for ${args.siteUrl} (${impact.searchType}, rows before ${impact.cutoffDate}):`,
+            `  Rows pruned: ${impact.rowsPruned.toLocaleString()}`,
+            '  Property totals, summaries and trends keep every impression (totals tables and the long-tail remainder).',
+            '  Query- and page-level views would change as follows.',
+            '',
+            'By month (impressions | unique queries | unique pages | avg position):',
+          ];
+          if (impact.months.length === 0) lines.push('  No month loses rows.');
+          for (const m of impact.months) {
+            lines.push(`  ${m.month}: ${change(m.impressions)} | ${change(m.uniqueQueries)} | ${change(m.uniquePages)} | ${change(m.avgPosition)}`);
+          }
+          lines.push('', `Queries that would disappear: ${impact.disappearingQueries.count.toLocaleString()}`);
+          for (const q of impact.disappearingQueries.items) {
+            lines.push(`  ${q.query} (${q.impressions.toLocaleString()} impressions, last seen ${q.lastSeen})`);
+          }
+          lines.push('', `Pages that would disappear: ${impact.disappearingPages.count.toLocaleString()}`);
+          for (const pg of impact.disappearingPages.items) {
+            lines.push(`  ${pg.page} (${pg.impressions.toLocaleString()} impressions, last seen ${pg.lastSeen})`);
+          }
+          const opp = impact.opportunities;
+          lines.push(
+            '',
+            `Opportunities ${opp.dateRange.startDate} to ${opp.dateRange.endDate}: ${opp.before} -> ${opp.after}`,
+            ...opp.lost.map(o => `  - ${o.query} (impressions ${change(o.impressions)}, position ${change(o.avgPosition)})`),
+            ...opp.gained.map(o => `  + ${o.query} (impressions ${change(o.impressions)}, position ${change(o.avgPosition)})`),
+          );
+          return { content: [{ type: 'text', text: lines.join('\n') }] };
+        }
+
         if (args.preview) {
           const preview = DataRetention.preview(args.siteUrl, policy);
           const lines = [
@@ -493,6 +556,7 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
             `  Target country low-value rows: ${preview.breakdown.targetLowValue.toLocaleString()}`,
             `  Non-target country zero-click rows: ${preview.breakdown.nonTargetZeroClick.toLocaleString()}`,
             `  Recent rows (protected): ${preview.breakdown.recentProtected.toLocaleString()}`,
+            `  Rows kept by protected pages/queries: ${preview.breakdown.patternProtected.toLocaleString()}`,
           ];
           return { content: [{ type: 'text', text: lines.join('\n') }] };
         }
@@ -503,6 +567,7 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
           `  Rows before: ${result.rowsBefore.toLocaleString()}`,
           `  Rows deleted: ${result.rowsDeleted.toLocaleString()}`,
           `  Rows after: ${result.rowsAfter.toLocaleString()}`,
+          `  Rows archived: ${result.rowsArchived.toLocaleString()}${result.archiveMonths.length > 0 ? ` (${result.archiveMonths.join(', ')})` : ''}`,
           `  DB size: ${(result.dbSizeBefore / 1024 / 1024).toFixed(0)} MB -> ${(result.dbSizeAfter / 1024 / 1024).toFixed(0)} MB`,
           `  Space saved: ${((result.dbSizeBefore - result.dbSizeAfter) / 1024 / 1024).toFixed(0)} MB`,
           `  Duration: ${(result.durationMs / 1000).toFixed(1)}s`,
@@ -515,6 +580,361 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
     }
   );
 
+  // ============================================================
+  // Tool 13: migrate_databases — UPGRADE DATABASE SCHEMAS
+  // ============================================================
+
+  server.tool(
+    'migrate_databases',
+    'Upgrade every property database in the data directory to the latest schema version. Migrations also run automatically whenever a database is opened, so this is only needed to upgrade everything up front or to check versions. A backup copy (*.bak) is written next to a database before any step that rebuilds tables or indexes. Existing synced data is kept.',
+    {},
+    async () => {
+      try {
+        const result = migrateDatabases();
+        const lines = [
+          `Schema migration (latest version: v${result.latestVersion}) in ${result.dataDir}:`,
+          '',
+        ];
+        if (result.databases.length === 0) {
+          lines.push('No databases found.');
+        }
+        for (const d of result.databases) {
+          if (d.status === 'failed') {
+            lines.push(`  ${d.file}: FAILED — ${d.error}`);
+          } else if (d.status === 'current') {
+            lines.push(`  ${d.file}: already at v${d.toVersion}`);
+          } else {
+            lines.push(`  ${d.file}: v${d.fromVersion} -> v${d.toVersion} (${d.applied.join(', ')})`);
+            if (d.sizeBefore !== null && d.sizeAfter !== null) {
+              lines.push(`    Size: ${(d.sizeBefore / 1024 / 1024).toFixed(1)} MB -> ${(d.sizeAfter / 1024 / 1024).toFixed(1)} MB`);
+            }
+            if (d.backupPath) lines.push(`    Backup: ${d.backupPath}`);
+          }
+        }
+        return { content: [{ type: 'text', text: lines.join('\n') }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: JSON.stringify({ error: (error as Error).message }) }], isError: true };
+      }
+    }
+  );
+
+  // ============================================================
+  // Tool 14: resume_sync — CONTINUE AN INTERRUPTED SYNC
+  // ============================================================
+
+  registerAppTool(
+    server,
+    'resume_sync',
+    {
+      title: 'Resume Sync',
+      description: 'Resume a sync job that was interrupted (the server stopped mid-sync), failed or was cancelled. Properties that already finished are kept, and only the date chunks that never completed are fetched again, under the same job ID. Use check_sync_status to find interrupted jobs.',
+      inputSchema: {
+        jobId: z.string().describe('Job ID of the interrupted, failed or cancelled sync.'),
+      },
+      _meta: { ui: { resourceUri: syncResourceUri } },
+    },
+    async (args: any) => {
+      try {
+        const jobId = syncManager.resumeSync(args.jobId);
+        const status = syncManager.getStatus(jobId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(status, null, 2) }],
+          structuredContent: status as any,
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ error: (error as Error).message }) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // ============================================================
+  // Tool 15: find_data_gaps — MISSING AND THIN DAYS
+  // ============================================================
+
+  server.tool(
+    'find_data_gaps',
+    'Find days missing from synced data, or suspiciously thin compared with a typical day. Incremental syncs only continue from the latest stored date, so a failed or cancelled chunk in the middle of a range is never filled on its own. Each missing range says whether it was never synced, only covered by a failed/cancelled/interrupted sync, or came back empty from a completed sync. Dates whose search appearance fetch failed are listed separately as appearanceGaps. Use mode "backfill_gaps" to start a sync job that fetches just those ranges.',
+    {
+      siteUrl: z.string().optional().describe('GSC property URL. Omit to check every synced property.'),
+      startDate: z.string().optional().describe('First date expected to have data (YYYY-MM-DD). Default: earliest stored date.'),
+      endDate: z.string().optional().describe('Last date expected to have data (YYYY-MM-DD). Default: latest stored date.'),
+      searchType: z.enum(['web', 'discover', 'googleNews', 'image', 'video']).optional().describe('Search type to check. Default: web.'),
+      thinThreshold: z.number().min(0).max(1).optional().describe('A day is thin when it has fewer rows than this share of the median day. Default: 0.25.'),
+      mode: z.enum(['report', 'backfill_gaps']).optional().describe('"report" (default) lists gaps; "backfill_gaps" also queues a sync job for them.'),
+    },
+    async (args) => {
+      try {
+        const result = findDataGaps(args);
+        if (args.mode !== 'backfill_gaps') {
+          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+        }
+
+        const properties = backfillArgs(result);
+        if (properties.length === 0) {
+          return { content: [{ type: 'text', text: JSON.stringify({ ...result, backfill: null, message: 'No gaps to backfill.' }, null, 2) }] };
+        }
+        const jobId = syncManager.startBackfill(properties);
+        const backfill = { jobId, properties: properties.map(p => ({ siteUrl: p.siteUrl, ranges: p.ranges })) };
+        return { content: [{ type: 'text', text: JSON.stringify({ ...result, backfill }, null, 2) }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: JSON.stringify({ error: (error as Error).message }) }], isError: true };
+      }
+    }
+  );
+
+  // ============================================================
+  // Tool 16: auth_status — GOOGLE CREDENTIALS
+  // ============================================================
+
+  server.tool(
+    'auth_status',
+    'Show which Google identities the server can use (service account and OAuth users) and how many properties each can see. Pass login=true to add a Google user account: returns a sign-in URL to open in a browser on this machine; the refresh token is stored locally once Google redirects back. Requires BSC_OAUTH_CLIENT_FILE or an oauth account in accounts.json.',
+    {
+      login: z.boolean().optional().describe('Start an OAuth sign-in for another Google user. Default: false.'),
+    },
+    async (args) => {
+      try {
+        const identities = await Promise.all(accounts.list().map(async (account) => {
+          const source = account.credentials.type === 'oauth'
+            ? { type: 'oauth', tokenFile: account.credentials.tokenFile }
+            : { type: 'service_account', keyFile: account.credentials.keyFile };
+          const base = { account: account.name, identity: account.identity, ...source };
+          if (!account.client.isSignedIn()) {
+            return { ...base, signedIn: false };
+          }
+          try {
+            const properties = await account.client.listProperties();
+            return { ...base, signedIn: true, propertyCount: properties.length };
+          } catch (error) {
+            return { ...base, signedIn: true, error: (error as Error).message };
+          }
+        }));
+
+        let login: { authUrl: string; message: string } | null = null;
+        if (args.login) {
+          const clientFile = accounts.oauthClientFile();
+          if (!clientFile) {
+            throw new Error('No OAuth client configured. Set BSC_OAUTH_CLIENT_FILE, or add an oauth account to accounts.json.');
+          }
+          const { authUrl, completion } = await startOAuthLogin(clientFile);
+          completion
+            .then(({ email, tokenFile }) => {
+              accounts.addSignedIn(clientFile, email, tokenFile);
+              console.error(`[Auth] Signed in as ${email}`);
+            })
+            .catch(err => console.error(`[Auth] Sign-in failed: ${err instanceof Error ? err.message : err}`));
+          login = {
+            authUrl,
+            message: 'Open authUrl in a browser on this machine and approve access. Run auth_status again afterwards to confirm. The link expires in 5 minutes.',
+          };
+        }
+
+        return { content: [{ type: 'text', text: JSON.stringify({ identities, login }, null, 2) }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: JSON.stringify({ error: (error as Error).message }) }], isError: true };
+      }
+    }
+  );
+
+  // ============================================================
+  // Tool 17: inspect_urls — INDEX STATUS VIA URL INSPECTION
+  // ============================================================
+
+  server.tool(
+    'inspect_urls',
+    'Check whether pages are indexed using the URL Inspection API: coverage state, Google-selected and user canonical, last crawl and mobile usability. Inspects the given URLs, or the top pages by clicks when none are given (e.g. pass the pages from declining_pages to see whether they dropped out of the index). Every result is stored with history in the property database and shown as an index badge in the dashboard top pages table. Google allows 2,000 inspections per property per day; pages inspected within refreshAfterDays reuse the stored result, and pages beyond the remaining quota are listed as skipped.',
+    {
+      siteUrl: z.string().describe('GSC property URL'),
+      urls: z.array(z.string()).optional().describe('Full page URLs to inspect. Omit to inspect the top pages by clicks.'),
+      topN: z.number().int().min(1).max(2000).optional().describe('Number of top pages by clicks to inspect when urls is omitted. Default: 25.'),
+      dateRange: z.string().optional().describe('Range used to rank top pages, e.g. "28d", "3m". Default: 28d.'),
+      searchType: z.enum(['web', 'discover', 'googleNews', 'image', 'video']).optional().describe('Search type used to rank top pages. Default: web.'),
+      refreshAfterDays: z.number().min(0).optional().describe('Reuse stored inspections younger than this many days. 0 always re-inspects. Default: 7.'),
+    },
+    async (args) => {
+      try {
+        const result = await inspectUrls(accounts, args);
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: JSON.stringify({ error: (error as Error).message }) }], isError: true };
+      }
+    }
+  );
+
+  // ============================================================
+  // Tool 18: sitemap_coverage — SITEMAPS VS TRAFFIC
+  // ============================================================
+
+  server.tool(
+    'sitemap_coverage',
+    'Sitemap health and coverage for a property. Lists each submitted sitemap with its latest submitted/indexed counts, errors and warnings, and how the counts changed over the period (every sync stores a snapshot from the Sitemaps API). Given local sitemap files or a URL list, also reports sitemap URLs with zero impressions in the period and pages that get clicks but are missing from every sitemap.',
+    {
+      siteUrl: z.string().describe('GSC property URL'),
+      sitemapFiles: z.array(z.string()).optional().describe('Paths to local sitemap XML files (.xml or .xml.gz) or plain-text files with one URL per line. Sitemap index files are not expanded; list their child sitemaps.'),
+      urls: z.array(z.string()).optional().describe('Sitemap URLs given directly, combined with any sitemapFiles.'),
+      dateRange: z.string().optional().describe('Period for traffic and sitemap history, e.g. "28d", "3m". Default: 3m.'),
+      searchType: z.enum(['web', 'discover', 'googleNews', 'image', 'video']).optional().describe('Search type for traffic. Default: web.'),
+      refresh: z.boolean().optional().describe('Fetch current sitemap counts from the API before reporting. Default: false (use the snapshot from the last sync).'),
+      limit: z.number().int().min(1).optional().describe('Maximum URLs listed in each coverage list. Default: 100.'),
+    },
+    async (args) => {
+      try {
+        const result = await sitemapCoverage(accounts, args);
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: JSON.stringify({ error: (error as Error).message }) }], isError: true };
+      }
+    }
+  );
+
+  // ============================================================
+  // Tool 19: rebuild_rollups — REPAIR AGGREGATE TABLES
+  // ============================================================
+
+  server.tool(
+    'rebuild_rollups',
+    'Recompute the daily, weekly and monthly rollup tables (per query, page, country and device) from the raw search_analytics rows. Syncs and pruning keep rollups current on their own; run this after editing search_analytics outside the server, or to build rollups for a database upgraded from an older version (syncs leave them unbuilt so other tool calls are not held up; the daemon builds them at startup). Until rollups are built, tools read search_analytics directly.',
+    {
+      siteUrl: z.string().optional().describe('GSC property URL. Omit to rebuild every synced property.'),
+    },
+    async (args) => {
+      try {
+        const reports = rebuildRollups(args.siteUrl);
+        const lines = ['Rollup rebuild:', ''];
+        if (reports.length === 0) {
+          lines.push('No databases found.');
+        }
+        for (const r of reports) {
+          if (r.status === 'failed') {
+            lines.push(`  ${r.file}: FAILED — ${r.error}`);
+            continue;
+          }
+          const rows = Object.values(r.tables).reduce((sum, count) => sum + count, 0);
+          lines.push(`  ${r.file}: ${rows.toLocaleString()} rollup rows in ${(r.durationMs / 1000).toFixed(1)}s`);
+          for (const [table, count] of Object.entries(r.tables)) {
+            lines.push(`    ${table}: ${count.toLocaleString()}`);
+          }
+        }
+        return { content: [{ type: 'text', text: lines.join('\n') }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: JSON.stringify({ error: (error as Error).message }) }], isError: true };
+      }
+    }
+  );
+
+  // ============================================================
+  // Tool 20: restore_archive — LOAD PRUNED ROWS BACK
+  // ============================================================
+
+  server.tool(
+    'restore_archive',
+    'Load rows that pruning removed back from the monthly archive files into the search_analytics_archive table, for a date range. search_analytics and the dashboard are not changed; query the side table with query_gsc_data, e.g. UNION ALL it with search_analytics. Restoring a range twice does not duplicate rows. Also lists the archived months available.',
+    {
+      siteUrl: z.string().describe('GSC property URL.'),
+      startDate: z.string().describe('First date to restore (YYYY-MM-DD).'),
+      endDate: z.string().describe('Last date to restore (YYYY-MM-DD).'),
+      clear: z.boolean().optional().describe('Empty search_analytics_archive before loading. Default: false.'),
+    },
+    async (args) => {
+      try {
+        const result = await restoreArchive(args);
+        const lines = [
+          `Archive restore for ${result.siteUrl} (${result.startDate} to ${result.endDate}):`,
+          `  Months read: ${result.monthsRead.length > 0 ? result.monthsRead.join(', ') : 'none'}`,
+          `  Rows restored: ${result.rowsRestored.toLocaleString()}`,
+        ];
+        if (result.rowsCleared > 0) lines.push(`  Rows cleared first: ${result.rowsCleared.toLocaleString()}`);
+        lines.push(
+          `  search_analytics_archive now holds ${result.tableRows.toLocaleString()} rows`,
+          '',
+          `Archived months: ${result.availableMonths.length > 0 ? result.availableMonths.join(', ') : 'none'}`,
+        );
+        return { content: [{ type: 'text', text: lines.join('\n') }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: JSON.stringify({ error: (error as Error).message }) }], isError: true };
+      }
+    }
+  );
+
+  // ============================================================
+  // Tool 21: get_retention_policy — SHOW A PROPERTY'S RETENTION POLICY
+  // ============================================================
+
+  server.tool(
+    'get_retention_policy',
+    'Show the retention policy that pruning applies to a property: recent days kept in full, target countries and their impression threshold, protected page and query strings, whether pruned rows are archived, and whether syncs prune automatically. Properties without a stored policy use the defaults.',
+    {
+      siteUrl: z.string().describe('GSC property URL.'),
+    },
+    async (args) => {
+      try {
+        const result = DataRetention.getPolicy(args.siteUrl);
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: JSON.stringify({ error: (error as Error).message }) }], isError: true };
+      }
+    }
+  );
+
+  // ============================================================
+  // Tool 22: set_retention_policy — STORE A PROPERTY'S RETENTION POLICY
+  // ============================================================
+
+  server.tool(
+    'set_retention_policy',
+    'Store the retention policy for a property in its database. Automatic pruning after each sync and prune_database both use it. Only the settings given change; pass reset=true to go back to the defaults first. Use prune_database with preview=true afterwards to see what the policy would delete.',
+    {
+      siteUrl: z.string().describe('GSC property URL.'),
+      enabled: z.boolean().optional().describe('Prune automatically after each sync. prune_database still works when false. Default: true.'),
+      recentDays: z.number().int().min(0).optional().describe('Days of recent data to keep in full. Default: 90.'),
+      targetMinImpressions: z.number().int().min(0).optional().describe('For target countries: min impressions to keep zero-click rows. Default: 5.'),
+      pruneNonTargetZeroClicks: z.boolean().optional().describe('Delete old zero-click rows from non-target countries. Default: true.'),
+      targetCountries: z.array(z.string()).optional().describe('ISO 3166-1 alpha-3 country codes to treat as target countries, e.g. ["usa","gbr"]. Replaces the list. Default: US, UK, EU, AU, CA.'),
+      protectedPages: z.array(z.string()).optional().describe('Rows whose page contains any of these strings are never pruned, e.g. ["/pricing"]. Replaces the list.'),
+      protectedQueries: z.array(z.string()).optional().describe('Rows whose query contains any of these strings are never pruned, e.g. brand terms. Replaces the list.'),
+      archive: z.boolean().optional().describe('Write pruned rows to the monthly archive files first. Default: true.'),
+      reset: z.boolean().optional().describe('Drop the stored policy before applying the settings given. Default: false.'),
+    },
+    async (args) => {
+      try {
+        const { siteUrl, reset, ...changes } = args;
+        const settings = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+        const result = DataRetention.setPolicy(siteUrl, settings, reset);
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: JSON.stringify({ error: (error as Error).message }) }], isError: true };
+      }
+    }
+  );
+
+  // ============================================================
+  // Tool 23: forecast — PROJECTED CLICKS AND IMPRESSIONS
+  // ============================================================
+
+  server.tool(
+    'forecast',
+    'Project daily clicks and impressions 30-180 days ahead from synced history, for a whole property, a directory (pageFilter) or a set of queries. Models trend, weekly seasonality and, with more than a year of history, yearly seasonality; runs entirely on local data. Returns daily forecasts with prediction intervals, totals, and a backtest: the same model refitted without the most recent days, with its error on them (wape, mape, totalErrorPct). Days no completed sync covered are left out of the fit and listed in history.unsynced. Needs at least 8 weeks of final data. get_dashboard with forecastDays draws the same forecast on the trend chart.',
+    {
+      siteUrl: z.string().describe('GSC property URL.'),
+      horizon: z.number().int().min(30).max(180).optional().describe('Days to forecast past the last day of final data. Default: 90.'),
+      pageFilter: z.string().optional().describe('Only pages matching this (LIKE), e.g. a directory such as "/blog/".'),
+      queries: z.array(z.string()).optional().describe('Only these exact queries.'),
+      searchType: z.enum(['web', 'discover', 'googleNews', 'image', 'video']).optional().describe('Search type to forecast. Default: web.'),
+      interval: z.union([z.literal(80), z.literal(90), z.literal(95)]).optional().describe('Prediction interval coverage in percent. Default: 80.'),
+    },
+    async (args) => {
+      try {
+        const result = forecastTraffic(args);
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: JSON.stringify({ error: (error as Error).message }) }], isError: true };
+      }
+    }
+  );
+
   // ============================================================
   // Resources — HTML UIs served to ext-apps iframes
   // ============================================================
@@ -584,6 +1004,15 @@ export function createServer(): { server: McpServer; run: () => Promise<void> }
     const transport = new StdioServerTransport();
     await server.connect(transport);
     console.error(`${SERVER_NAME} v${SERVER_VERSION} running on stdio`);
+    syncManager.recoverSyncLogs();
+
+    // A bad schedule file shouldn't take the tools down with it
+    try {
+      const schedule = loadScheduleConfig();
+      if (schedule.enabled) new Scheduler(syncManager, schedule).start();
+    } catch (error) {
+      console.error(`[Scheduler] Not started: ${(error as Error).message}`);
+    }
   };
 
   return { server, run };
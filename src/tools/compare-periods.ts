@@ -1,6 +1,8 @@
 import { existsSync } from 'fs';
 import { Database } from '../core/Database.js';
 import { getDbPath } from './helpers.js';
+import { aggregateSource } from './totals.js';
+import { ctrSQL, periodCtrSQL, positionSQL } from './metrics.js';
 import type { ComparePeriodParams } from '../types/index.js';
 
 export function comparePeriods(params: ComparePeriodParams): any {
@@ -13,6 +15,8 @@ export function comparePeriods(params: ComparePeriodParams): any {
     dimension = 'query',
     limit = 50,
     pageFilter,
+    searchType = 'web',
+    positionMethod = 'weighted',
   } = params;
 
   const dbPath = getDbPath(siteUrl);
@@ -27,53 +31,54 @@ export function comparePeriods(params: ComparePeriodParams): any {
 
   const db = new Database(dbPath);
   try {
-    let pageFilterClause = '';
-    const extraValues: any[] = [];
+    let filterClause = ' AND search_type = ?';
+    const extraValues: any[] = [searchType];
     if (pageFilter) {
-      pageFilterClause = ' AND page LIKE ?';
+      filterClause += ' AND page LIKE ?';
       extraValues.push(`%${pageFilter}%`);
     }
 
-    // Summary totals for each period
+    // Summary totals for each period, including anonymized queries when the
+    // totals tables cover both periods
+    const earliest = period1Start < period2Start ? period1Start : period2Start;
+    const totals = aggregateSource(db, { searchType, pageFilter }, earliest);
+
     const period1Summary = db.queryOne(`
       SELECT
         COALESCE(SUM(clicks), 0) as clicks,
         COALESCE(SUM(impressions), 0) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
-      WHERE date BETWEEN ? AND ?${pageFilterClause}
-    `, [period1Start, period1End, ...extraValues]);
+        ${ctrSQL()} as ctr,
+        ${positionSQL(positionMethod)} as avg_position
+      FROM ${totals.table}
+      WHERE date BETWEEN ? AND ?${totals.where}
+    `, [period1Start, period1End, ...totals.values]);
 
     const period2Summary = db.queryOne(`
       SELECT
         COALESCE(SUM(clicks), 0) as clicks,
         COALESCE(SUM(impressions), 0) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
-      WHERE date BETWEEN ? AND ?${pageFilterClause}
-    `, [period2Start, period2End, ...extraValues]);
+        ${ctrSQL()} as ctr,
+        ${positionSQL(positionMethod)} as avg_position
+      FROM ${totals.table}
+      WHERE date BETWEEN ? AND ?${totals.where}
+    `, [period2Start, period2End, ...totals.values]);
 
     // Dimension breakdown
     const dimFilter = dimension === 'query' ? ' AND query IS NOT NULL' :
                       dimension === 'page' ? ' AND page IS NOT NULL' : '';
+    const breakdown = dimension === 'query'
+      ? { table: 'search_analytics', where: filterClause, values: extraValues }
+      : aggregateSource(db, { searchType, pageFilter }, earliest, dimension as 'page' | 'device' | 'country');
 
     const rows = db.query(`
       SELECT
         ${dimension} as dimension_value,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) as period1_clicks,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END) as period1_impressions,
-        ROUND(
-          CAST(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) AS REAL)
-          / NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END), 0), 4
-        ) as period1_ctr,
+        ${periodCtrSQL()} as period1_ctr,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) as period2_clicks,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END) as period2_impressions,
-        ROUND(
-          CAST(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) AS REAL)
-          / NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END), 0), 4
-        ) as period2_ctr,
+        ${periodCtrSQL()} as period2_ctr,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END)
           - SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) as click_change,
         ROUND(
@@ -83,8 +88,8 @@ export function comparePeriods(params: ComparePeriodParams): any {
           / NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END), 0),
           1
         ) as click_change_pct
-      FROM search_analytics
-      WHERE (date BETWEEN ? AND ? OR date BETWEEN ? AND ?)${dimFilter}${pageFilterClause}
+      FROM ${breakdown.table}
+      WHERE (date BETWEEN ? AND ? OR date BETWEEN ? AND ?)${dimFilter}${breakdown.where}
       GROUP BY ${dimension}
       HAVING period1_clicks > 0 OR period2_clicks > 0
       ORDER BY period2_clicks DESC
@@ -117,7 +122,7 @@ export function comparePeriods(params: ComparePeriodParams): any {
       // WHERE date ranges
       period1Start, period1End,
       period2Start, period2End,
-      ...extraValues,
+      ...breakdown.values,
       limit,
     ]);
 
@@ -126,6 +131,8 @@ export function comparePeriods(params: ComparePeriodParams): any {
 
     return {
       dimension,
+      searchType,
+      positionMethod,
       period1: { startDate: period1Start, endDate: period1End },
       period2: { startDate: period2Start, endDate: period2End },
       summary: {
@@ -0,0 +1,298 @@
+import { Database } from '../core/Database.js';
+import type { DateRange, SearchType } from '../types/index.js';
+
+/**
+ * Expected CTR by position, fitted from the property's own query-level rows.
+ *
+ * Positions are grouped into buckets (1 to 10 individually, then wider
+ * bands) and the CTR of each bucket is SUM(clicks) / SUM(impressions) over
+ * the fitting window. There is one curve per device, and per branded /
+ * non-branded segment when brand terms are given. A bucket with too few
+ * impressions borrows from the all-devices curve, then from the property
+ * curve. Buckets the property never reached take the nearest observed
+ * value, and each curve is made non-increasing by position.
+ *
+ * Each point also carries a low/high band: the impression-weighted 25th and
+ * 75th percentile of query-level CTR in that bucket across the property,
+ * as a ratio of the bucket's average, applied to the curve's CTR.
+ */
+
+export interface PositionBucket {
+  label: string;
+  min: number;
+  max: number;
+}
+
+export const POSITION_BUCKETS: PositionBucket[] = [
+  ...Array.from({ length: 10 }, (_, i) => ({ label: String(i + 1), min: i + 1, max: i + 1 })),
+  { label: '11-15', min: 11, max: 15 },
+  { label: '16-20', min: 16, max: 20 },
+  { label: '21-30', min: 21, max: 30 },
+  { label: '31-50', min: 31, max: 50 },
+  { label: '51+', min: 51, max: Infinity },
+];
+
+export type CtrSegment = 'all' | 'branded' | 'non-branded';
+
+export interface CtrCurvePoint {
+  bucket: string;
+  impressions: number;
+  clicks: number;
+  /** Raw clicks / impressions in this curve's own rows; null without impressions. */
+  observedCtr: number | null;
+  /** Smoothed CTR used for expectations. */
+  ctr: number;
+  /** Low and high band around `ctr` from the spread of query CTRs. */
+  ctrLow: number;
+  ctrHigh: number;
+  /** Where `ctr` came from before smoothing. */
+  source: 'observed' | 'all-devices' | 'property' | 'extrapolated';
+}
+
+export interface CtrCurve {
+  /** Device the curve covers, or 'all'. */
+  device: string;
+  segment: CtrSegment;
+  points: CtrCurvePoint[];
+}
+
+export interface CtrModel {
+  dateRange: DateRange;
+  searchType: SearchType;
+  brandTerms: string[];
+  minBucketImpressions: number;
+  curves: CtrCurve[];
+}
+
+export interface FitCtrModelOptions {
+  endDate: string;
+  searchType?: SearchType;
+  brandTerms?: string[];
+  /** Days of data the curve is fitted on, ending at endDate. Default: 90. */
+  windowDays?: number;
+  /** Impressions a device/segment bucket needs to stand on its own. Default: 500. */
+  minBucketImpressions?: number;
+}
+
+const DEFAULT_WINDOW_DAYS = 90;
+const DEFAULT_MIN_BUCKET_IMPRESSIONS = 500;
+
+/** SQL expression mapping a position column to its POSITION_BUCKETS index. */
+export function bucketSQL(column = 'position'): string {
+  const cases = POSITION_BUCKETS.slice(0, -1)
+    .map((bucket, i) => `WHEN ${column} < ${bucket.max + 0.5} THEN ${i}`)
+    .join(' ');
+  return `(CASE ${cases} ELSE ${POSITION_BUCKETS.length - 1} END)`;
+}
+
+export function bucketFor(position: number): number {
+  const index = POSITION_BUCKETS.findIndex(bucket => position < bucket.max + 0.5);
+  return index === -1 ? POSITION_BUCKETS.length - 1 : index;
+}
+
+/**
+ * SQL expression classing a row's query as branded or non-branded, or
+ * 'all' when there are no brand terms. Bind `values` where it appears.
+ */
+export function segmentSQL(brandTerms: string[] = []): { sql: string; values: string[] } {
+  if (brandTerms.length === 0) return { sql: `'all'`, values: [] };
+  return {
+    sql: `(CASE WHEN (${brandTerms.map(() => 'LOWER(query) LIKE ?').join(' OR ')}) THEN 'branded' ELSE 'non-branded' END)`,
+    values: brandTerms.map(term => `%${term.toLowerCase()}%`),
+  };
+}
+
+export function fitCtrModel(db: Database, options: FitCtrModelOptions): CtrModel {
+  const {
+    endDate,
+    searchType = 'web',
+    brandTerms = [],
+    windowDays = DEFAULT_WINDOW_DAYS,
+    minBucketImpressions = DEFAULT_MIN_BUCKET_IMPRESSIONS,
+  } = options;
+  const start = new Date(endDate + 'T00:00:00Z');
+  start.setUTCDate(start.getUTCDate() - (windowDays - 1));
+  const startDate = start.toISOString().slice(0, 10);
+
+  const segment = segmentSQL(brandTerms);
+  const rows = db.query(`
+    SELECT ${bucketSQL()} as bucket, COALESCE(device, 'unknown') as device, ${segment.sql} as segment,
+      SUM(clicks) as clicks, SUM(impressions) as impressions
+    FROM search_analytics
+    WHERE date BETWEEN ? AND ? AND search_type = ? AND query IS NOT NULL AND impressions > 0
+    GROUP BY bucket, device, segment
+  `, [...segment.values, startDate, endDate, searchType]) as Array<{
+    bucket: number; device: string; segment: CtrSegment; clicks: number; impressions: number;
+  }>;
+
+  // Sum rows into one bucket array per device/segment key, with 'all' rollups
+  const totals = new Map<string, Array<{ clicks: number; impressions: number }>>();
+  const add = (key: string, row: typeof rows[number]) => {
+    const buckets = totals.get(key) ?? POSITION_BUCKETS.map(() => ({ clicks: 0, impressions: 0 }));
+    buckets[row.bucket].clicks += row.clicks;
+    buckets[row.bucket].impressions += row.impressions;
+    totals.set(key, buckets);
+  };
+  const segments: CtrSegment[] = brandTerms.length > 0 ? ['branded', 'non-branded'] : ['all'];
+  const devices = new Set<string>();
+  for (const row of rows) {
+    devices.add(row.device);
+    add(curveKey('all', 'all'), row);
+    if (brandTerms.length > 0) add(curveKey('all', row.segment), row);
+    add(curveKey(row.device, row.segment), row);
+  }
+
+  const empty = POSITION_BUCKETS.map(() => ({ clicks: 0, impressions: 0 }));
+
+  // Query-level CTR per bucket, in CTR order, for the spread around each
+  // bucket's average; streamed so large properties stay out of memory
+  const spreadRows = db.iterate(`
+    SELECT bucket, clicks, impressions FROM (
+      SELECT ${bucketSQL()} as bucket, SUM(clicks) as clicks, SUM(impressions) as impressions
+      FROM search_analytics
+      WHERE date BETWEEN ? AND ? AND search_type = ? AND query IS NOT NULL AND impressions > 0
+      GROUP BY query, bucket
+    )
+    ORDER BY bucket, CAST(clicks AS REAL) / impressions
+  `, [startDate, endDate, searchType]) as IterableIterator<{ bucket: number; clicks: number; impressions: number }>;
+  const bands = spreadRatios(spreadRows, totals.get(curveKey('all', 'all')) ?? empty);
+
+  const property = buildCurve('all', 'all', totals.get(curveKey('all', 'all')) ?? empty, null, 1, 'property', bands);
+  const curves: CtrCurve[] = [property];
+  for (const seg of brandTerms.length > 0 ? segments : []) {
+    curves.push(buildCurve('all', seg, totals.get(curveKey('all', seg)) ?? empty, property, minBucketImpressions, 'property', bands));
+  }
+  for (const device of [...devices].sort()) {
+    for (const seg of segments) {
+      const parent = curves.find(c => c.device === 'all' && c.segment === seg) ?? property;
+      const source = parent === property ? 'property' : 'all-devices';
+      curves.push(buildCurve(device, seg, totals.get(curveKey(device, seg)) ?? empty, parent, minBucketImpressions, source, bands));
+    }
+  }
+
+  return { dateRange: { startDate, endDate }, searchType, brandTerms, minBucketImpressions, curves };
+}
+
+/** Expected CTR at a position for a device and segment, from the closest matching curve. */
+export function expectedCtr(model: CtrModel, position: number, device: string | null = null, segment: CtrSegment = 'all'): number {
+  return ctrForBucket(model, bucketFor(position), device, segment);
+}
+
+export function ctrForBucket(model: CtrModel, bucket: number, device: string | null = null, segment: CtrSegment = 'all'): number {
+  return curvePoint(model, bucket, device, segment).ctr;
+}
+
+/** A bucket's point on the closest matching curve: the device's, then all devices', then the property's. */
+export function curvePoint(model: CtrModel, bucket: number, device: string | null = null, segment: CtrSegment = 'all'): CtrCurvePoint {
+  const find = (d: string, s: CtrSegment) => model.curves.find(c => c.device === d && c.segment === s);
+  const curve = (device ? find(device, segment) : undefined) ?? find('all', segment) ?? find('all', 'all')!;
+  return curve.points[bucket];
+}
+
+function curveKey(device: string, segment: CtrSegment): string {
+  return `${device}|${segment}`;
+}
+
+function buildCurve(
+  device: string,
+  segment: CtrSegment,
+  buckets: Array<{ clicks: number; impressions: number }>,
+  parent: CtrCurve | null,
+  minImpressions: number,
+  fallbackSource: CtrCurvePoint['source'],
+  bands: Array<{ low: number; high: number }>
+): CtrCurve {
+  const points: CtrCurvePoint[] = buckets.map((b, i) => {
+    const observedCtr = b.impressions > 0 ? b.clicks / b.impressions : null;
+    if (observedCtr !== null && b.impressions >= minImpressions) {
+      return { bucket: POSITION_BUCKETS[i].label, ...b, observedCtr, ctr: observedCtr, ctrLow: 0, ctrHigh: 0, source: 'observed' };
+    }
+    const borrowed = parent?.points[i];
+    return {
+      bucket: POSITION_BUCKETS[i].label,
+      ...b,
+      observedCtr,
+      ctr: borrowed?.ctr ?? NaN,
+      ctrLow: 0,
+      ctrHigh: 0,
+      source: borrowed ? (borrowed.source === 'observed' ? fallbackSource : borrowed.source) : 'extrapolated',
+    };
+  });
+
+  // Buckets with nothing to go on take the nearest better-known bucket
+  const known = points.findIndex(p => !Number.isNaN(p.ctr));
+  for (let i = 0; i < points.length; i++) {
+    if (!Number.isNaN(points[i].ctr)) continue;
+    points[i].ctr = i < known || known === -1 ? (known === -1 ? 0 : points[known].ctr) : points[i - 1].ctr;
+  }
+
+  smoothNonIncreasing(points);
+  points.forEach((point, i) => {
+    point.ctrLow = Math.round(Math.min(point.ctr * bands[i].low, point.ctr) * 10000) / 10000;
+    point.ctrHigh = Math.round(Math.min(Math.max(point.ctr * bands[i].high, point.ctr), 1) * 10000) / 10000;
+    point.ctr = Math.round(point.ctr * 10000) / 10000;
+    if (point.observedCtr !== null) point.observedCtr = Math.round(point.observedCtr * 10000) / 10000;
+  });
+  return { device, segment, points };
+}
+
+/**
+ * Per bucket, the impression-weighted 25th and 75th percentile of query
+ * CTR divided by the bucket's average CTR, in one pass over rows sorted by
+ * bucket then CTR. `totals` are the buckets' summed clicks and impressions
+ * over the same rows. Buckets without clicks take the nearest bucket that
+ * has them; with none at all the band is flat.
+ */
+function spreadRatios(
+  rows: Iterable<{ bucket: number; clicks: number; impressions: number }>,
+  totals: Array<{ clicks: number; impressions: number }>
+): Array<{ low: number; high: number }> {
+  const found = totals.map(() => ({ seen: 0, low: null as number | null, high: null as number | null }));
+  for (const row of rows) {
+    const state = found[row.bucket];
+    const target = totals[row.bucket].impressions;
+    state.seen += row.impressions;
+    if (state.low === null && state.seen >= 0.25 * target) state.low = row.clicks / row.impressions;
+    if (state.high === null && state.seen >= 0.75 * target) state.high = row.clicks / row.impressions;
+  }
+
+  const ratios: Array<{ low: number; high: number } | null> = totals.map((total, bucket) => {
+    if (total.clicks === 0) return null;
+    const average = total.clicks / total.impressions;
+    return { low: (found[bucket].low ?? 0) / average, high: (found[bucket].high ?? 0) / average };
+  });
+
+  const known = ratios.findIndex(r => r !== null);
+  return ratios.map((ratio, i) => {
+    if (ratio) return ratio;
+    if (known === -1) return { low: 1, high: 1 };
+    // Nearest known bucket, preferring the better position on a tie
+    for (let d = 1; d < ratios.length; d++) {
+      const near = ratios[i - d] ?? ratios[i + d];
+      if (near) return near;
+    }
+    return { low: 1, high: 1 };
+  });
+}
+
+/**
+ * Pool adjacent violators so CTR never rises with position, weighting
+ * each bucket by its impressions (at least 1, so borrowed buckets count).
+ */
+function smoothNonIncreasing(points: CtrCurvePoint[]): void {
+  const blocks: Array<{ ctr: number; weight: number; count: number }> = [];
+  for (const point of points) {
+    blocks.push({ ctr: point.ctr, weight: Math.max(point.impressions, 1), count: 1 });
+    while (blocks.length > 1 && blocks[blocks.length - 2].ctr < blocks[blocks.length - 1].ctr) {
+      const last = blocks.pop()!;
+      const prev = blocks[blocks.length - 1];
+      prev.ctr = (prev.ctr * prev.weight + last.ctr * last.weight) / (prev.weight + last.weight);
+      prev.weight += last.weight;
+      prev.count += last.count;
+    }
+  }
+  let i = 0;
+  for (const block of blocks) {
+    for (let j = 0; j < block.count; j++) points[i++].ctr = block.ctr;
+  }
+}
@@ -0,0 +1,290 @@
+import { existsSync } from 'fs';
+import { basename } from 'path';
+import { Database } from '../core/Database.js';
+import { addDays, getDbPath, listDbPaths } from './helpers.js';
+import type { SyncPropertyArgs } from '../core/SyncManager.js';
+import type { SearchType } from '../types/index.js';
+
+// A day is thin when it has fewer rows than this share of the median day
+const DEFAULT_THIN_THRESHOLD = 0.25;
+// Below this median the row counts are too small to call any day thin
+const MIN_MEDIAN_ROWS = 20;
+
+export interface DataGapParams {
+  siteUrl?: string;
+  startDate?: string;
+  endDate?: string;
+  searchType?: SearchType;
+  thinThreshold?: number;
+}
+
+/**
+ * Why a day has no rows:
+ * - not_synced: no sync_log entry covers it
+ * - sync_incomplete: only errored, cancelled or interrupted syncs cover it
+ * - empty_after_sync: a completed sync covered it but stored nothing
+ */
+export type MissingReason = 'not_synced' | 'sync_incomplete' | 'empty_after_sync';
+
+export interface DataGap {
+  kind: 'missing' | 'thin';
+  from: string;
+  to: string;
+  days: number;
+  reason?: MissingReason;
+}
+
+/** Dates whose latest search appearance fetch failed, though the analytics rows may be there. */
+export interface AppearanceGap {
+  from: string;
+  to: string;
+  days: number;
+  error: string | null;
+}
+
+export interface ThinDay {
+  date: string;
+  rows: number;
+  medianRows: number;
+}
+
+export interface PropertyGapReport {
+  siteUrl: string;
+  searchType: SearchType;
+  checkedFrom: string | null;
+  checkedTo: string | null;
+  expectedDays: number;
+  presentDays: number;
+  missingDays: number;
+  thinDays: ThinDay[];
+  gaps: DataGap[];
+  appearanceGaps: AppearanceGap[];
+  error?: string;
+}
+
+export interface DataGapsResult {
+  searchType: SearchType;
+  thinThreshold: number;
+  properties: PropertyGapReport[];
+}
+
+/**
+ * Compare the dates each property should have against the dates actually
+ * stored in search_analytics. Incremental syncs only look at MAX(date), so
+ * a failed or cancelled chunk in the middle of a range stays empty until
+ * something like this finds it.
+ *
+ * The expected range defaults to the property's first through last stored
+ * date. Provisional (fresh) days are never reported as thin; the next
+ * incremental sync re-fetches them anyway.
+ */
+export function findDataGaps(params: DataGapParams): DataGapsResult {
+  const { siteUrl, searchType = 'web', thinThreshold = DEFAULT_THIN_THRESHOLD } = params;
+
+  let dbPaths: string[];
+  if (siteUrl) {
+    const dbPath = getDbPath(siteUrl);
+    if (!existsSync(dbPath)) {
+      throw new Error(`No database found for "${siteUrl}". Run sync_gsc_data first.`);
+    }
+    dbPaths = [dbPath];
+  } else {
+    dbPaths = listDbPaths();
+  }
+
+  const properties = dbPaths.map(dbPath => {
+    try {
+      const db = new Database(dbPath);
+      try {
+        return scanProperty(db, dbPath, { ...params, searchType, thinThreshold });
+      } finally {
+        db.close();
+      }
+    } catch (err) {
+      return {
+        siteUrl: siteUrl ?? basename(dbPath, '.db'),
+        searchType,
+        checkedFrom: null,
+        checkedTo: null,
+        expectedDays: 0,
+        presentDays: 0,
+        missingDays: 0,
+        thinDays: [],
+        gaps: [],
+        appearanceGaps: [],
+        error: err instanceof Error ? err.message : 'Unknown error',
+      };
+    }
+  });
+
+  return { searchType, thinThreshold, properties };
+}
+
+/**
+ * Turn a gap report into per-property sync args that fetch only the
+ * missing, thin and appearance-failed ranges. Properties without gaps are
+ * left out.
+ */
+export function backfillArgs(result: DataGapsResult): SyncPropertyArgs[] {
+  return result.properties
+    .filter(p => p.gaps.length > 0 || p.appearanceGaps.length > 0)
+    .map(p => ({
+      siteUrl: p.siteUrl,
+      searchType: p.searchType,
+      ranges: mergeRanges([...p.gaps, ...p.appearanceGaps]),
+    }));
+}
+
+// --- Private ---
+
+function scanProperty(
+  db: Database,
+  dbPath: string,
+  params: DataGapParams & { searchType: SearchType; thinThreshold: number }
+): PropertyGapReport {
+  const { searchType, thinThreshold } = params;
+  const meta = db.queryOne('SELECT site_url FROM property_meta LIMIT 1');
+  const siteUrl: string = params.siteUrl ?? meta?.site_url ?? basename(dbPath, '.db');
+
+  const bounds = db.queryOne(
+    'SELECT MIN(date) as min_date, MAX(date) as max_date FROM search_analytics WHERE search_type = ?',
+    [searchType]
+  );
+  const checkedFrom: string | null = params.startDate ?? bounds?.min_date ?? null;
+  const checkedTo: string | null = params.endDate ?? bounds?.max_date ?? null;
+
+  const report: PropertyGapReport = {
+    siteUrl,
+    searchType,
+    checkedFrom,
+    checkedTo,
+    expectedDays: 0,
+    presentDays: 0,
+    missingDays: 0,
+    thinDays: [],
+    gaps: [],
+    appearanceGaps: [],
+  };
+  if (!checkedFrom || !checkedTo || checkedFrom > checkedTo) return report;
+
+  const dayRows = db.query(`
+    SELECT date, COUNT(*) as rows, MAX(data_state = 'fresh') as fresh
+    FROM search_analytics
+    WHERE search_type = ? AND date BETWEEN ? AND ?
+    GROUP BY date
+  `, [searchType, checkedFrom, checkedTo]) as Array<{ date: string; rows: number; fresh: number }>;
+  const byDate = new Map(dayRows.map(r => [r.date, r]));
+
+  // sync_log does not record a search type, so every search_analytics run counts
+  const logs = db.query(`
+    SELECT date_from, date_to, status FROM sync_log
+    WHERE sync_type = 'search_analytics' AND date_from IS NOT NULL AND date_to IS NOT NULL
+      AND date_from <= ? AND date_to >= ?
+  `, [checkedTo, checkedFrom]) as Array<{ date_from: string; date_to: string; status: string }>;
+
+  const medianRows = median(dayRows.filter(r => !r.fresh).map(r => r.rows));
+  const thinCutoff = medianRows >= MIN_MEDIAN_ROWS ? medianRows * thinThreshold : 0;
+
+  const days: Array<{ date: string; kind: DataGap['kind']; reason?: MissingReason }> = [];
+  for (const date of eachDate(checkedFrom, checkedTo)) {
+    report.expectedDays++;
+    const stored = byDate.get(date);
+    if (!stored) {
+      report.missingDays++;
+      days.push({ date, kind: 'missing', reason: missingReason(date, logs) });
+      continue;
+    }
+    report.presentDays++;
+    if (!stored.fresh && stored.rows < thinCutoff) {
+      report.thinDays.push({ date, rows: stored.rows, medianRows });
+      days.push({ date, kind: 'thin' });
+    }
+  }
+
+  // Consecutive days of the same kind and reason become one gap
+  for (const day of days) {
+    const last = report.gaps[report.gaps.length - 1];
+    if (last && last.kind === day.kind && last.reason === day.reason && addDays(last.to, 1) === day.date) {
+      last.to = day.date;
+      last.days++;
+    } else {
+      report.gaps.push({
+        kind: day.kind,
+        from: day.date,
+        to: day.date,
+        days: 1,
+        ...(day.reason ? { reason: day.reason } : {}),
+      });
+    }
+  }
+
+  report.appearanceGaps = appearanceGaps(db, checkedFrom, checkedTo);
+  return report;
+}
+
+/**
+ * Dates where the most recent search appearance fetch covering them failed.
+ * A later completed fetch of the same dates clears them.
+ */
+function appearanceGaps(db: Database, checkedFrom: string, checkedTo: string): AppearanceGap[] {
+  const logs = db.query(`
+    SELECT date_from, date_to, status, error_message FROM sync_log
+    WHERE sync_type = 'search_appearance' AND status IN ('completed', 'failed')
+      AND date_from IS NOT NULL AND date_to IS NOT NULL
+      AND date_from <= ? AND date_to >= ?
+    ORDER BY id DESC
+  `, [checkedTo, checkedFrom]) as Array<{ date_from: string; date_to: string; status: string; error_message: string | null }>;
+  if (!logs.some(l => l.status === 'failed')) return [];
+
+  const gaps: AppearanceGap[] = [];
+  for (const date of eachDate(checkedFrom, checkedTo)) {
+    const latest = logs.find(l => l.date_from <= date && l.date_to >= date);
+    if (latest?.status !== 'failed') continue;
+    const last = gaps[gaps.length - 1];
+    if (last && addDays(last.to, 1) === date && last.error === latest.error_message) {
+      last.to = date;
+      last.days++;
+    } else {
+      gaps.push({ from: date, to: date, days: 1, error: latest.error_message });
+    }
+  }
+  return gaps;
+}
+
+function missingReason(
+  date: string,
+  logs: Array<{ date_from: string; date_to: string; status: string }>
+): MissingReason {
+  const covering = logs.filter(l => l.date_from <= date && l.date_to >= date);
+  if (covering.some(l => l.status === 'completed')) return 'empty_after_sync';
+  if (covering.length > 0) return 'sync_incomplete';
+  return 'not_synced';
+}
+
+/** Join gaps that touch, whatever their kind, into fetchable ranges. */
+function mergeRanges(gaps: Array<{ from: string; to: string }>): Array<{ from: string; to: string }> {
+  const sorted = [...gaps].sort((a, b) => a.from.localeCompare(b.from));
+  const ranges: Array<{ from: string; to: string }> = [];
+  for (const gap of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && addDays(last.to, 1) >= gap.from) {
+      if (gap.to > last.to) last.to = gap.to;
+    } else {
+      ranges.push({ from: gap.from, to: gap.to });
+    }
+  }
+  return ranges;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function* eachDate(from: string, to: string): Generator<string> {
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    yield date;
+  }
+}
@@ -0,0 +1,359 @@
+import { existsSync } from 'fs';
+import { Database } from '../core/Database.js';
+import { addDays, daysBetween, getDbPath, round } from './helpers.js';
+import { aggregateSource } from './totals.js';
+import type { SearchType } from '../types/index.js';
+
+/**
+ * Daily clicks and impressions projected from a property's own history.
+ *
+ * Each metric is modelled on a log scale as a linear trend plus weekly
+ * seasonality (Fourier terms over the day of week) and, once there is more
+ * than a year of history, yearly seasonality. Coefficients are a ridge
+ * least-squares fit, so everything runs locally on the SQLite data.
+ *
+ * Accuracy is checked by refitting without the most recent days and
+ * forecasting them (the backtest). Prediction intervals start at the
+ * in-sample residual spread and widen with the horizon at the rate the
+ * backtest errors show.
+ */
+
+const MIN_HORIZON = 30;
+const MAX_HORIZON = 180;
+// Days of final data needed before anything is forecast
+const MIN_HISTORY_DAYS = 56;
+// History needed before yearly seasonality is fitted rather than left to the trend
+const YEARLY_MIN_DAYS = 400;
+const WEEKLY_HARMONICS = 3;
+const YEARLY_HARMONICS = 4;
+const RIDGE_LAMBDA = 1;
+const MIN_BACKTEST_DAYS = 14;
+const Z_SCORES: Record<ForecastInterval, number> = { 80: 1.2816, 90: 1.6449, 95: 1.96 };
+
+export type ForecastInterval = 80 | 90 | 95;
+export type ForecastMetric = 'clicks' | 'impressions';
+
+export interface ForecastParams {
+  siteUrl: string;
+  /** Days to project past the last day of final data, 30 to 180. Default: 90. */
+  horizon?: number;
+  /** Limit to pages matching this (LIKE), e.g. a directory such as "/blog/". */
+  pageFilter?: string;
+  /** Limit to these exact queries. */
+  queries?: string[];
+  searchType?: SearchType;
+  /** Prediction interval coverage in percent. Default: 80. */
+  interval?: ForecastInterval;
+}
+
+export interface ForecastDay {
+  date: string;
+  clicks: number;
+  clicksLower: number;
+  clicksUpper: number;
+  impressions: number;
+  impressionsLower: number;
+  impressionsUpper: number;
+}
+
+export interface BacktestError {
+  /** Sum of absolute daily errors over the sum of actuals. */
+  wape: number | null;
+  /** Mean absolute percentage error over days with a non-zero actual. */
+  mape: number | null;
+  /** Forecast total against actual total for the holdout, in percent. */
+  totalErrorPct: number | null;
+}
+
+export interface ForecastResult {
+  siteUrl: string;
+  searchType: SearchType;
+  scope: { pageFilter: string | null; queries: string[] | null };
+  history: {
+    startDate: string;
+    endDate: string;
+    /** Days the model was fitted on. */
+    days: number;
+    /** Date ranges with no rows that no completed sync covered, left out of the fit. */
+    unsynced: Array<{ startDate: string; endDate: string; days: number }>;
+  };
+  horizon: number;
+  interval: ForecastInterval;
+  model: {
+    weeklySeasonality: true;
+    yearlySeasonality: boolean;
+    /** Fitted trend as percent change per year. */
+    trendPctPerYear: Record<ForecastMetric, number>;
+  };
+  backtest: {
+    startDate: string;
+    endDate: string;
+    days: number;
+    clicks: BacktestError;
+    impressions: BacktestError;
+  };
+  /** Sums of the daily forecasts; bounds are sums of daily bounds, so wider than a true interval for the total. */
+  totals: Record<ForecastMetric, { forecast: number; lower: number; upper: number }>;
+  daily: ForecastDay[];
+}
+
+interface HistoryDay {
+  date: string;
+  clicks: number;
+  impressions: number;
+}
+
+interface FittedModel {
+  coefficients: number[];
+  yearly: boolean;
+  /** First history date, where the trend term is zero. */
+  origin: string;
+  /** Standard deviation of in-sample residuals on the log scale. */
+  residualSd: number;
+}
+
+export function forecastTraffic(params: ForecastParams): ForecastResult {
+  const { siteUrl, horizon = 90, pageFilter, queries, searchType = 'web', interval = 80 } = params;
+  if (!Number.isInteger(horizon) || horizon < MIN_HORIZON || horizon > MAX_HORIZON) {
+    throw new Error(`Invalid horizon ${horizon}: expected a whole number of days from ${MIN_HORIZON} to ${MAX_HORIZON}.`);
+  }
+  if (!(interval in Z_SCORES)) {
+    throw new Error(`Invalid interval ${interval}: expected 80, 90 or 95.`);
+  }
+  const dbPath = getDbPath(siteUrl);
+  if (!existsSync(dbPath)) {
+    throw new Error(`No database found for "${siteUrl}". Run sync_gsc_data first.`);
+  }
+
+  const db = new Database(dbPath);
+  let history: HistoryDay[];
+  let unsynced: ForecastResult['history']['unsynced'];
+  try {
+    ({ days: history, unsynced } = loadHistory(db, { searchType, pageFilter, queries }));
+  } finally {
+    db.close();
+  }
+  if (history.length < MIN_HISTORY_DAYS) {
+    throw new Error(`Not enough history to forecast: ${history.length} days of final data, need at least ${MIN_HISTORY_DAYS}.`);
+  }
+
+  const lastDate = history[history.length - 1].date;
+  const futureDates = Array.from({ length: horizon }, (_, i) => addDays(lastDate, i + 1));
+
+  // Backtest: hold back the most recent days, fit the same model on the
+  // rest and compare. With yearly seasonality the holdout is shortened so
+  // the rest still spans YEARLY_MIN_DAYS, down to MIN_BACKTEST_DAYS; with
+  // less history than both need, the rest falls a little short of that and
+  // the ridge penalty keeps its yearly terms small.
+  const yearly = history.length >= YEARLY_MIN_DAYS;
+  let holdout = Math.max(MIN_BACKTEST_DAYS, Math.min(horizon, Math.floor(history.length / 4)));
+  if (yearly) {
+    holdout = Math.max(MIN_BACKTEST_DAYS, Math.min(holdout, history.length - YEARLY_MIN_DAYS));
+  }
+  const train = history.slice(0, -holdout);
+  const test = history.slice(-holdout);
+
+  const z = Z_SCORES[interval];
+  const daily: ForecastDay[] = futureDates.map(date => ({
+    date, clicks: 0, clicksLower: 0, clicksUpper: 0, impressions: 0, impressionsLower: 0, impressionsUpper: 0,
+  }));
+  const backtest = { clicks: {} as BacktestError, impressions: {} as BacktestError };
+  const trendPctPerYear = {} as Record<ForecastMetric, number>;
+  const totals = {} as ForecastResult['totals'];
+
+  for (const metric of ['clicks', 'impressions'] as const) {
+    const trial = fit(train, metric, yearly);
+    const predicted = test.map(day => Math.max(Math.expm1(predictLog(trial, day.date)), 0));
+    const logErrors = test.map((day, i) => Math.log1p(day[metric]) - Math.log1p(predicted[i]));
+    backtest[metric] = backtestError(test.map(day => day[metric]), predicted);
+
+    const model = fit(history, metric, yearly);
+    trendPctPerYear[metric] = round((Math.exp(model.coefficients[1]) - 1) * 100, 1);
+
+    // Variance grows linearly with the horizon, calibrated so its average
+    // over the backtest horizon matches the backtest's mean squared log error
+    const backtestVariance = logErrors.reduce((sum, e) => sum + e * e, 0) / logErrors.length;
+    const baseVariance = model.residualSd ** 2;
+    const growth = (2 * Math.max(backtestVariance - baseVariance, 0)) / (holdout + 1);
+
+    let sum = 0, lower = 0, upper = 0;
+    futureDates.forEach((date, i) => {
+      const center = predictLog(model, date);
+      const spread = z * Math.sqrt(baseVariance + growth * (i + 1));
+      const value = Math.max(Math.round(Math.expm1(center)), 0);
+      const low = Math.max(Math.round(Math.expm1(center - spread)), 0);
+      const high = Math.max(Math.round(Math.expm1(center + spread)), 0);
+      if (metric === 'clicks') {
+        Object.assign(daily[i], { clicks: value, clicksLower: low, clicksUpper: high });
+      } else {
+        Object.assign(daily[i], { impressions: value, impressionsLower: low, impressionsUpper: high });
+      }
+      sum += value;
+      lower += low;
+      upper += high;
+    });
+    totals[metric] = { forecast: sum, lower, upper };
+  }
+
+  return {
+    siteUrl,
+    searchType,
+    scope: { pageFilter: pageFilter ?? null, queries: queries?.length ? queries : null },
+    history: { startDate: history[0].date, endDate: lastDate, days: history.length, unsynced },
+    horizon,
+    interval,
+    model: { weeklySeasonality: true, yearlySeasonality: yearly, trendPctPerYear },
+    backtest: { startDate: test[0].date, endDate: test[test.length - 1].date, days: holdout, ...backtest },
+    totals,
+    daily,
+  };
+}
+
+// --- Private ---
+
+/**
+ * Daily totals for the scope from its first day with data to the
+ * property's last final day. Provisional days are left out (GSC still
+ * revises them, so they would drag the end of the series down). A day with
+ * no rows counts as zero when a completed sync covered it, so a query or
+ * page that drops out of results pulls the fit down; a day no sync fetched
+ * is left out and reported instead, since its zero would be a gap in the
+ * data rather than in the traffic.
+ */
+function loadHistory(
+  db: Database,
+  scope: { searchType: SearchType; pageFilter?: string; queries?: string[] }
+): { days: HistoryDay[]; unsynced: ForecastResult['history']['unsynced'] } {
+  const fresh = new Set(db.getFreshDates(scope.searchType));
+  let rows: HistoryDay[];
+  if (scope.queries?.length) {
+    const page = scope.pageFilter ? ' AND page LIKE ?' : '';
+    rows = db.query(`
+      SELECT date, SUM(clicks) as clicks, SUM(impressions) as impressions
+      FROM search_analytics
+      WHERE search_type = ? AND query IN (SELECT value FROM json_each(?))${page}
+      GROUP BY date
+      ORDER BY date ASC
+    `, [scope.searchType, JSON.stringify(scope.queries), ...(scope.pageFilter ? [`%${scope.pageFilter}%`] : [])]);
+  } else {
+    const startDate = db.getDateRange()?.minDate ?? '0000-00-00';
+    const source = aggregateSource(db, { searchType: scope.searchType, pageFilter: scope.pageFilter }, startDate);
+    rows = db.query(`
+      SELECT date, SUM(clicks) as clicks, SUM(impressions) as impressions
+      FROM ${source.table}
+      WHERE date >= ?${source.where}
+      GROUP BY date
+      ORDER BY date ASC
+    `, [startDate, ...source.values]);
+  }
+
+  let last = db.getLastSyncDate(scope.searchType);
+  while (last && fresh.has(last)) last = addDays(last, -1);
+  const byDate = new Map(rows.filter(row => !fresh.has(row.date)).map(row => [row.date, row]));
+  const first = rows.find(row => !fresh.has(row.date))?.date;
+  if (!first || !last || first > last) return { days: [], unsynced: [] };
+
+  const synced = db.getSyncedDates(first, last);
+  const days: HistoryDay[] = [];
+  const unsynced: ForecastResult['history']['unsynced'] = [];
+  for (let date = first; date <= last; date = addDays(date, 1)) {
+    const day = byDate.get(date) ?? (synced.has(date) ? { date, clicks: 0, impressions: 0 } : null);
+    if (day) {
+      days.push(day);
+      continue;
+    }
+    const gap = unsynced[unsynced.length - 1];
+    if (gap && addDays(gap.endDate, 1) === date) {
+      gap.endDate = date;
+      gap.days++;
+    } else {
+      unsynced.push({ startDate: date, endDate: date, days: 1 });
+    }
+  }
+  return { days, unsynced };
+}
+
+function fit(days: HistoryDay[], metric: ForecastMetric, yearly: boolean): FittedModel {
+  const origin = days[0].date;
+  const rows = days.map(day => features(day.date, origin, yearly));
+  const y = days.map(day => Math.log1p(day[metric]));
+
+  // Ridge normal equations; intercept and trend are left unpenalised
+  const k = rows[0].length;
+  const xtx = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  const xty = new Array<number>(k).fill(0);
+  rows.forEach((row, n) => {
+    for (let i = 0; i < k; i++) {
+      xty[i] += row[i] * y[n];
+      for (let j = 0; j < k; j++) xtx[i][j] += row[i] * row[j];
+    }
+  });
+  for (let i = 2; i < k; i++) xtx[i][i] += RIDGE_LAMBDA;
+  const coefficients = solve(xtx, xty);
+
+  const residuals = rows.map((row, n) => y[n] - dot(row, coefficients));
+  const mean = residuals.reduce((sum, r) => sum + r, 0) / residuals.length;
+  const residualSd = Math.sqrt(residuals.reduce((sum, r) => sum + (r - mean) ** 2, 0) / Math.max(residuals.length - k, 1));
+  return { coefficients, yearly, origin, residualSd };
+}
+
+function predictLog(model: FittedModel, date: string): number {
+  return dot(features(date, model.origin, model.yearly), model.coefficients);
+}
+
+/** Intercept, years since origin, then weekly and (optionally) yearly Fourier terms. */
+function features(date: string, origin: string, yearly: boolean): number[] {
+  const day = Date.parse(date + 'T00:00:00Z') / 86_400_000;
+  const row = [1, daysBetween(origin, date) / 365.25];
+  for (let k = 1; k <= WEEKLY_HARMONICS; k++) {
+    row.push(Math.sin((2 * Math.PI * k * day) / 7), Math.cos((2 * Math.PI * k * day) / 7));
+  }
+  if (yearly) {
+    for (let k = 1; k <= YEARLY_HARMONICS; k++) {
+      row.push(Math.sin((2 * Math.PI * k * day) / 365.25), Math.cos((2 * Math.PI * k * day) / 365.25));
+    }
+  }
+  return row;
+}
+
+function backtestError(actual: number[], predicted: number[]): BacktestError {
+  const actualTotal = actual.reduce((sum, v) => sum + v, 0);
+  const predictedTotal = predicted.reduce((sum, v) => sum + v, 0);
+  const absoluteError = actual.reduce((sum, v, i) => sum + Math.abs(v - predicted[i]), 0);
+  const nonZero = actual.map((v, i) => [v, predicted[i]]).filter(([v]) => v > 0);
+  return {
+    wape: actualTotal > 0 ? round(absoluteError / actualTotal, 3) : null,
+    mape: nonZero.length > 0 ? round(nonZero.reduce((sum, [v, p]) => sum + Math.abs(v - p) / v, 0) / nonZero.length, 3) : null,
+    totalErrorPct: actualTotal > 0 ? round(((predictedTotal - actualTotal) / actualTotal) * 100, 1) : null,
+  };
+}
+
+/** Gaussian elimination with partial pivoting. */
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    if (Math.abs(m[col][col]) < 1e-12) continue;
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let j = col; j <= n; j++) m[row][j] -= factor * m[col][j];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    if (Math.abs(m[row][row]) < 1e-12) continue;
+    let sum = m[row][n];
+    for (let j = row + 1; j < n; j++) sum -= m[row][j] * x[j];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
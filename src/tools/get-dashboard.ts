@@ -1,6 +1,10 @@
 import { existsSync } from 'fs';
 import { Database } from '../core/Database.js';
 import { getDbPath, getPeriodDates, type ComparisonMode } from './helpers.js';
+import { aggregateSource, queryCoverage, rollupSource } from './totals.js';
+import { forecastTraffic, type ForecastResult } from './forecast.js';
+import { ctrSQL, periodCtrSQL, periodPositionParams, periodPositionSQL, positionSQL, rawPositionSQL } from './metrics.js';
+import type { PositionMethod, SearchType } from '../types/index.js';
 
 export interface DashboardParams {
   siteUrl: string;
@@ -8,10 +12,14 @@ export interface DashboardParams {
   comparisonMode?: ComparisonMode;
   matchWeekdays?: boolean;
   brandTerms?: string[];
+  searchType?: SearchType;
+  positionMethod?: PositionMethod;
+  /** Days of forecast to add after the trend, 30 to 180. */
+  forecastDays?: number;
 }
 
 export function getDashboardData(params: DashboardParams): any {
-  const { siteUrl, dateRange = '3m', comparisonMode = 'previous_period', matchWeekdays = false, brandTerms } = params;
+  const { siteUrl, dateRange = '3m', comparisonMode = 'previous_period', matchWeekdays = false, brandTerms, searchType = 'web', positionMethod = 'weighted', forecastDays } = params;
   const dbPath = getDbPath(siteUrl);
 
   if (!existsSync(dbPath)) {
@@ -23,66 +31,75 @@ export function getDashboardData(params: DashboardParams): any {
   const db = new Database(dbPath);
 
   try {
+    // Property-level sections read the totals tables (which include anonymized
+    // queries) when they cover both periods; query sections need query-level rows.
+    const sourceStart = comparisonDisabled ? current.startDate : prior.startDate;
+    const totals = aggregateSource(db, { searchType }, sourceStart);
+    const countryTotals = aggregateSource(db, { searchType }, sourceStart, 'country');
+    // Query and page sections read the coarsest rollups covering each period
+    const queryRollup = rollupSource(db, 'query', [current, prior], { positionMethod });
+    const pageRollup = rollupSource(db, 'page', [current, prior], { positionMethod });
+    const currentQueryRollup = rollupSource(db, 'query', [current], { positionMethod });
+    const priorQueryRollup = rollupSource(db, 'query', [prior], { positionMethod });
+
     // 1. Summary metrics
     const currentSummary = db.queryOne(`
       SELECT
         COALESCE(SUM(clicks), 0) as clicks,
         COALESCE(SUM(impressions), 0) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
-      WHERE date BETWEEN ? AND ?
-    `, [current.startDate, current.endDate]);
+        ${ctrSQL()} as ctr,
+        ${positionSQL(positionMethod)} as avg_position
+      FROM ${totals.table}
+      WHERE date BETWEEN ? AND ?${totals.where}
+    `, [current.startDate, current.endDate, ...totals.values]);
 
     const priorSummary = db.queryOne(`
       SELECT
         COALESCE(SUM(clicks), 0) as clicks,
         COALESCE(SUM(impressions), 0) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
-      WHERE date BETWEEN ? AND ?
-    `, [prior.startDate, prior.endDate]);
+        ${ctrSQL()} as ctr,
+        ${positionSQL(positionMethod)} as avg_position
+      FROM ${totals.table}
+      WHERE date BETWEEN ? AND ?${totals.where}
+    `, [prior.startDate, prior.endDate, ...totals.values]);
 
     // 2. Daily trend (with CTR and position for metric toggles)
     const dailyTrend = db.query(`
       SELECT date,
         SUM(clicks) as clicks,
         SUM(impressions) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
-      WHERE date BETWEEN ? AND ?
+        ${ctrSQL()} as ctr,
+        ${positionSQL(positionMethod)} as avg_position
+      FROM ${totals.table}
+      WHERE date BETWEEN ? AND ?${totals.where}
       GROUP BY date
       ORDER BY date ASC
-    `, [current.startDate, current.endDate]);
+    `, [current.startDate, current.endDate, ...totals.values]);
 
     // 2b. Prior period daily trend (for dashed overlay)
     const priorDailyTrend = comparisonDisabled ? [] : db.query(`
       SELECT date,
         SUM(clicks) as clicks,
         SUM(impressions) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
-      WHERE date BETWEEN ? AND ?
+        ${ctrSQL()} as ctr,
+        ${positionSQL(positionMethod)} as avg_position
+      FROM ${totals.table}
+      WHERE date BETWEEN ? AND ?${totals.where}
       GROUP BY date
       ORDER BY date ASC
-    `, [prior.startDate, prior.endDate]);
+    `, [prior.startDate, prior.endDate, ...totals.values]);
 
     // 3. Top queries with change + CTR + position
     const topQueries = db.query(`
       SELECT query,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) as clicks,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END) as impressions,
-        ROUND(CAST(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) AS REAL) /
-          NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END), 0), 4) as ctr,
-        ROUND(AVG(CASE WHEN date BETWEEN ? AND ? THEN position ELSE NULL END), 1) as avg_position,
+        ${periodCtrSQL()} as ctr,
+        ${periodPositionSQL(positionMethod)} as avg_position,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) as prior_clicks,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END) as prior_impressions,
-        ROUND(CAST(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) AS REAL) /
-          NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END), 0), 4) as prior_ctr,
-        ROUND(AVG(CASE WHEN date BETWEEN ? AND ? THEN position ELSE NULL END), 1) as prior_avg_position,
+        ${periodCtrSQL()} as prior_ctr,
+        ${periodPositionSQL(positionMethod)} as prior_avg_position,
         ROUND(
           (SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END)
            - SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END))
@@ -90,9 +107,10 @@ export function getDashboardData(params: DashboardParams): any {
           / NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END), 0),
           1
         ) as clicks_change_pct
-      FROM search_analytics
+      FROM ${queryRollup}
       WHERE query IS NOT NULL
         AND (date BETWEEN ? AND ? OR date BETWEEN ? AND ?)
+        AND search_type = ?
       GROUP BY query
       HAVING clicks > 0
       ORDER BY clicks DESC
@@ -102,17 +120,18 @@ export function getDashboardData(params: DashboardParams): any {
       current.startDate, current.endDate,
       current.startDate, current.endDate,
       current.startDate, current.endDate,
-      current.startDate, current.endDate,
-      prior.startDate, prior.endDate,
+      ...periodPositionParams(positionMethod, current),
       prior.startDate, prior.endDate,
       prior.startDate, prior.endDate,
       prior.startDate, prior.endDate,
       prior.startDate, prior.endDate,
+      ...periodPositionParams(positionMethod, prior),
       current.startDate, current.endDate,
       prior.startDate, prior.endDate,
       prior.startDate, prior.endDate,
       current.startDate, current.endDate,
       prior.startDate, prior.endDate,
+      searchType,
     ]);
 
     // 4. Top pages with change + CTR + position
@@ -120,14 +139,12 @@ export function getDashboardData(params: DashboardParams): any {
       SELECT page,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) as clicks,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END) as impressions,
-        ROUND(CAST(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) AS REAL) /
-          NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END), 0), 4) as ctr,
-        ROUND(AVG(CASE WHEN date BETWEEN ? AND ? THEN position ELSE NULL END), 1) as avg_position,
+        ${periodCtrSQL()} as ctr,
+        ${periodPositionSQL(positionMethod)} as avg_position,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) as prior_clicks,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END) as prior_impressions,
-        ROUND(CAST(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) AS REAL) /
-          NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END), 0), 4) as prior_ctr,
-        ROUND(AVG(CASE WHEN date BETWEEN ? AND ? THEN position ELSE NULL END), 1) as prior_avg_position,
+        ${periodCtrSQL()} as prior_ctr,
+        ${periodPositionSQL(positionMethod)} as prior_avg_position,
         ROUND(
           (SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END)
            - SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END))
@@ -135,9 +152,10 @@ export function getDashboardData(params: DashboardParams): any {
           / NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END), 0),
           1
         ) as clicks_change_pct
-      FROM search_analytics
+      FROM ${pageRollup}
       WHERE page IS NOT NULL
         AND (date BETWEEN ? AND ? OR date BETWEEN ? AND ?)
+        AND search_type = ?
       GROUP BY page
       HAVING clicks > 0
       ORDER BY clicks DESC
@@ -147,19 +165,29 @@ export function getDashboardData(params: DashboardParams): any {
       current.startDate, current.endDate,
       current.startDate, current.endDate,
       current.startDate, current.endDate,
-      current.startDate, current.endDate,
-      prior.startDate, prior.endDate,
+      ...periodPositionParams(positionMethod, current),
       prior.startDate, prior.endDate,
       prior.startDate, prior.endDate,
       prior.startDate, prior.endDate,
       prior.startDate, prior.endDate,
+      ...periodPositionParams(positionMethod, prior),
       current.startDate, current.endDate,
       prior.startDate, prior.endDate,
       prior.startDate, prior.endDate,
       current.startDate, current.endDate,
       prior.startDate, prior.endDate,
+      searchType,
     ]);
 
+    // Latest URL inspection of each top page, for the index badge
+    const inspections = db.getLatestInspections(topPages.map(row => row.page));
+    for (const row of topPages) {
+      const inspection = inspections.get(row.page);
+      row.index_status = inspection
+        ? { verdict: inspection.verdict, coverageState: inspection.coverageState, inspectedAt: inspection.inspectedAt }
+        : null;
+    }
+
     // 5. Country breakdown
     const countries = db.query(`
       SELECT country,
@@ -174,9 +202,9 @@ export function getDashboardData(params: DashboardParams): any {
           / NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END), 0),
           1
         ) as clicks_change_pct
-      FROM search_analytics
+      FROM ${countryTotals.table}
       WHERE country IS NOT NULL
-        AND (date BETWEEN ? AND ? OR date BETWEEN ? AND ?)
+        AND (date BETWEEN ? AND ? OR date BETWEEN ? AND ?)${countryTotals.where}
       GROUP BY country
       HAVING clicks > 0
       ORDER BY clicks DESC
@@ -191,6 +219,7 @@ export function getDashboardData(params: DashboardParams): any {
       prior.startDate, prior.endDate,
       current.startDate, current.endDate,
       prior.startDate, prior.endDate,
+      ...countryTotals.values,
     ]);
 
     // 6. Ranking buckets — computed in SQL to avoid pulling millions of rows into JS
@@ -206,48 +235,50 @@ export function getDashboardData(params: DashboardParams): any {
         END as bucket,
         COUNT(*) as count
       FROM (
-        SELECT AVG(position) as avg_pos
-        FROM search_analytics
-        WHERE date BETWEEN ? AND ? AND query IS NOT NULL
+        SELECT ${rawPositionSQL(positionMethod)} as avg_pos
+        FROM ${currentQueryRollup}
+        WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND search_type = ?
         GROUP BY query
       )
       GROUP BY bucket
       ORDER BY MIN(avg_pos)
-    `, [current.startDate, current.endDate]);
+    `, [current.startDate, current.endDate, searchType]);
 
     // 7. New queries (in current but not in prior) — using EXCEPT for efficiency
     const newQueries = comparisonDisabled ? [] : db.query(`
-      SELECT query, SUM(clicks) as clicks, SUM(impressions) as impressions, ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
+      SELECT query, SUM(clicks) as clicks, SUM(impressions) as impressions, ${positionSQL(positionMethod)} as avg_position
+      FROM ${currentQueryRollup}
       WHERE date BETWEEN ? AND ?
         AND query IS NOT NULL
+        AND search_type = ?
         AND query IN (
-          SELECT query FROM search_analytics WHERE date BETWEEN ? AND ? AND query IS NOT NULL
+          SELECT query FROM ${currentQueryRollup} WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND search_type = ?
           EXCEPT
-          SELECT query FROM search_analytics WHERE date BETWEEN ? AND ? AND query IS NOT NULL
+          SELECT query FROM ${priorQueryRollup} WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND search_type = ?
         )
       GROUP BY query
       HAVING clicks > 0
       ORDER BY clicks DESC
       LIMIT 50
-    `, [current.startDate, current.endDate, current.startDate, current.endDate, prior.startDate, prior.endDate]);
+    `, [current.startDate, current.endDate, searchType, current.startDate, current.endDate, searchType, prior.startDate, prior.endDate, searchType]);
 
     // 8. Lost queries (in prior but not in current) — using EXCEPT for efficiency
     const lostQueries = comparisonDisabled ? [] : db.query(`
-      SELECT query, SUM(clicks) as clicks, SUM(impressions) as impressions, ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
+      SELECT query, SUM(clicks) as clicks, SUM(impressions) as impressions, ${positionSQL(positionMethod)} as avg_position
+      FROM ${priorQueryRollup}
       WHERE date BETWEEN ? AND ?
         AND query IS NOT NULL
+        AND search_type = ?
         AND query IN (
-          SELECT query FROM search_analytics WHERE date BETWEEN ? AND ? AND query IS NOT NULL
+          SELECT query FROM ${priorQueryRollup} WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND search_type = ?
           EXCEPT
-          SELECT query FROM search_analytics WHERE date BETWEEN ? AND ? AND query IS NOT NULL
+          SELECT query FROM ${currentQueryRollup} WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND search_type = ?
         )
       GROUP BY query
       HAVING clicks > 0
       ORDER BY clicks DESC
       LIMIT 50
-    `, [prior.startDate, prior.endDate, prior.startDate, prior.endDate, current.startDate, current.endDate]);
+    `, [prior.startDate, prior.endDate, searchType, prior.startDate, prior.endDate, searchType, current.startDate, current.endDate, searchType]);
 
     // 9. Branded split (if brandTerms provided)
     let brandedSplit = null;
@@ -260,37 +291,86 @@ export function getDashboardData(params: DashboardParams): any {
           CASE WHEN ${brandConditions} THEN 'branded' ELSE 'non-branded' END as segment,
           SUM(clicks) as clicks,
           SUM(impressions) as impressions
-        FROM search_analytics
-        WHERE date BETWEEN ? AND ? AND query IS NOT NULL
+        FROM ${currentQueryRollup}
+        WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND search_type = ?
         GROUP BY segment
-      `, [...brandValues, current.startDate, current.endDate]);
+      `, [...brandValues, current.startDate, current.endDate, searchType]);
 
       const priorSplitSummary = comparisonDisabled ? [] : db.query(`
         SELECT
           CASE WHEN ${brandConditions} THEN 'branded' ELSE 'non-branded' END as segment,
           SUM(clicks) as clicks,
           SUM(impressions) as impressions
-        FROM search_analytics
-        WHERE date BETWEEN ? AND ? AND query IS NOT NULL
+        FROM ${priorQueryRollup}
+        WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND search_type = ?
         GROUP BY segment
-      `, [...brandValues, prior.startDate, prior.endDate]);
+      `, [...brandValues, prior.startDate, prior.endDate, searchType]);
 
       const splitTrend = db.query(`
         SELECT date,
           CASE WHEN ${brandConditions} THEN 'branded' ELSE 'non-branded' END as segment,
           SUM(clicks) as clicks
-        FROM search_analytics
-        WHERE date BETWEEN ? AND ? AND query IS NOT NULL
+        FROM ${rollupSource(db, 'query', [current], { positionMethod, maxGrain: 'day' })}
+        WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND search_type = ?
         GROUP BY date, segment
         ORDER BY date ASC
-      `, [...brandValues, current.startDate, current.endDate]);
+      `, [...brandValues, current.startDate, current.endDate, searchType]);
 
       brandedSplit = { summary: splitSummary, priorSummary: priorSplitSummary, trend: splitTrend };
     }
 
-    // 10. Last synced timestamp
+    // 10. Search appearance (rich results, videos, FAQ...) — synced in its own pass
+    const searchAppearance = db.query(`
+      SELECT search_appearance,
+        SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) as clicks,
+        SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END) as impressions,
+        SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) as prior_clicks,
+        SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END) as prior_impressions,
+        ROUND(
+          (SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END)
+           - SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END))
+          * 100.0
+          / NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END), 0),
+          1
+        ) as clicks_change_pct
+      FROM search_appearance_analytics
+      WHERE (date BETWEEN ? AND ? OR date BETWEEN ? AND ?)
+        AND search_type = ?
+      GROUP BY search_appearance
+      HAVING impressions > 0
+      ORDER BY clicks DESC, impressions DESC
+      LIMIT 50
+    `, [
+      current.startDate, current.endDate,
+      current.startDate, current.endDate,
+      prior.startDate, prior.endDate,
+      prior.startDate, prior.endDate,
+      current.startDate, current.endDate,
+      prior.startDate, prior.endDate,
+      prior.startDate, prior.endDate,
+      current.startDate, current.endDate,
+      prior.startDate, prior.endDate,
+      searchType,
+    ]);
+
+    // 11. Last synced timestamp and provisional days
     const meta = db.getPropertyMeta(siteUrl);
     const lastSyncedAt = meta?.lastSyncedAt ?? null;
+    const provisionalDates = db.getFreshDates(searchType);
+
+    const coverage = queryCoverage(db, totals, { searchType }, current.startDate, current.endDate, currentSummary);
+
+    // 12. Forecast past the trend, when asked for. Too little history is not
+    // an error for the dashboard; the chart just has no forecast.
+    let forecast: ForecastResult | null = null;
+    let forecastError: string | undefined;
+    if (forecastDays) {
+      try {
+        forecast = forecastTraffic({ siteUrl, horizon: forecastDays, searchType });
+      } catch (err) {
+        forecastError = err instanceof Error ? err.message : 'Unknown error';
+      }
+    }
 
     const pctChange = (curr: number, prev: number): number | null =>
       prev === 0 ? null : Math.round(((curr - prev) / prev) * 1000) / 10;
@@ -298,9 +378,12 @@ export function getDashboardData(params: DashboardParams): any {
     return {
       siteUrl,
       dateRange,
+      searchType,
+      positionMethod,
       comparisonMode,
       matchWeekdays,
       lastSyncedAt,
+      provisionalDates,
       period: { current, prior },
       summary: {
         current: {
@@ -321,6 +404,7 @@ export function getDashboardData(params: DashboardParams): any {
           ctrPct: pctChange(currentSummary.ctr ?? 0, priorSummary.ctr ?? 0),
           avgPositionPct: pctChange(currentSummary.avg_position ?? 0, priorSummary.avg_position ?? 0),
         },
+        queryCoverage: coverage,
       },
       dailyTrend,
       priorDailyTrend,
@@ -331,6 +415,9 @@ export function getDashboardData(params: DashboardParams): any {
       newQueries,
       lostQueries,
       brandedSplit,
+      searchAppearance,
+      forecast,
+      ...(forecastError ? { forecastError } : {}),
     };
   } finally {
     db.close();
@@ -1,12 +1,22 @@
 import { existsSync } from 'fs';
+import { basename } from 'path';
 import { Database } from '../core/Database.js';
-import { getDbPath, getPeriodDates } from './helpers.js';
+import { addDays, getDbPath, getPeriodDates, listDbPaths, round } from './helpers.js';
+import { aggregateSource, queryCoverage, rollupSource } from './totals.js';
+import { ctrSQL, periodCtrSQL, periodPositionParams, periodPositionSQL, positionSQL } from './metrics.js';
+import { bucketFor, bucketSQL, ctrForBucket, curvePoint, fitCtrModel, segmentSQL } from './ctr-model.js';
 import type { InsightParams } from '../types/index.js';
 
 type InsightHandler = (db: Database, params: InsightParams, current: { startDate: string; endDate: string }, prior: { startDate: string; endDate: string }) => any;
 
 export function getInsights(params: InsightParams): any {
   const { siteUrl, insight, dateRange = '28d' } = params;
+  if (!siteUrl) {
+    if (insight !== 'anomalies') {
+      throw new Error(`"siteUrl" is required for the ${insight} insight. Only anomalies can run across every property.`);
+    }
+    return anomaliesAcrossProperties(params);
+  }
   const dbPath = getDbPath(siteUrl);
 
   if (!existsSync(dbPath)) {
@@ -27,10 +37,61 @@ export function getInsights(params: InsightParams): any {
   }
 }
 
+/**
+ * Run the anomalies insight on every synced property, then list dates
+ * where two or more properties moved the same way on the same metric:
+ * likely an algorithm update, a tracking problem or a seasonal event
+ * rather than something on one site. One failing database does not stop
+ * the others.
+ */
+function anomaliesAcrossProperties(params: InsightParams): any {
+  const { current, prior } = getPeriodDates(params.dateRange || '28d');
+  const properties = listDbPaths().map(dbPath => {
+    try {
+      const db = new Database(dbPath);
+      try {
+        const meta = db.queryOne('SELECT site_url FROM property_meta LIMIT 1');
+        const siteUrl: string = meta?.site_url ?? basename(dbPath, '.db');
+        const { anomalies } = insightHandlers.anomalies(db, { ...params, siteUrl }, current, prior);
+        return { siteUrl, anomalies };
+      } finally {
+        db.close();
+      }
+    } catch (err) {
+      return { siteUrl: basename(dbPath, '.db'), anomalies: [], error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  });
+
+  const events = new Map<string, { startDate: string; endDate: string; metric: string; direction: string; properties: string[] }>();
+  for (const property of properties) {
+    for (const anomaly of property.anomalies) {
+      for (const metric of anomaly.metrics) {
+        const key = `${anomaly.startDate}|${metric.metric}|${metric.direction}`;
+        const event = events.get(key)
+          ?? { startDate: anomaly.startDate, endDate: anomaly.endDate, metric: metric.metric, direction: metric.direction, properties: [] as string[] };
+        event.properties.push(property.siteUrl);
+        events.set(key, event);
+      }
+    }
+  }
+  const sharedEvents = [...events.values()]
+    .filter(event => event.properties.length >= 2)
+    .sort((a, b) => b.properties.length - a.properties.length || a.startDate.localeCompare(b.startDate));
+
+  return {
+    insight: 'anomalies',
+    dateRange: current,
+    granularity: params.granularity || 'day',
+    zThreshold: ANOMALY_Z_THRESHOLD,
+    sharedEvents,
+    properties,
+  };
+}
+
 /** Build WHERE clause fragments from common filter params */
 function buildFilters(params: InsightParams): { clauses: string[]; values: any[] } {
-  const clauses: string[] = [];
-  const values: any[] = [];
+  const clauses: string[] = ['search_type = ?'];
+  const values: any[] = [params.searchType || 'web'];
 
   if (params.pageFilter) {
     clauses.push('page LIKE ?');
@@ -64,28 +125,27 @@ function filterValues(params: InsightParams): any[] {
 
 const insightHandlers: Record<string, InsightHandler> = {
   summary: (db, params, current, prior) => {
-    const f = filterSQL(params);
-    const fv = filterValues(params);
+    const totals = aggregateSource(db, params, prior.startDate);
 
     const currentRow = db.queryOne(`
       SELECT
         COALESCE(SUM(clicks), 0) as clicks,
         COALESCE(SUM(impressions), 0) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
-      WHERE date BETWEEN ? AND ?${f}
-    `, [current.startDate, current.endDate, ...fv]);
+        ${ctrSQL()} as ctr,
+        ${positionSQL(params.positionMethod)} as avg_position
+      FROM ${totals.table}
+      WHERE date BETWEEN ? AND ?${totals.where}
+    `, [current.startDate, current.endDate, ...totals.values]);
 
     const priorRow = db.queryOne(`
       SELECT
         COALESCE(SUM(clicks), 0) as clicks,
         COALESCE(SUM(impressions), 0) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
-      WHERE date BETWEEN ? AND ?${f}
-    `, [prior.startDate, prior.endDate, ...fv]);
+        ${ctrSQL()} as ctr,
+        ${positionSQL(params.positionMethod)} as avg_position
+      FROM ${totals.table}
+      WHERE date BETWEEN ? AND ?${totals.where}
+    `, [prior.startDate, prior.endDate, ...totals.values]);
 
     const pctChange = (curr: number, prev: number): number | null =>
       prev === 0 ? null : Math.round(((curr - prev) / prev) * 1000) / 10;
@@ -123,6 +183,7 @@ const insightHandlers: Record<string, InsightHandler> = {
           ? pctChange(currentRow.avg_position, priorRow.avg_position)
           : null,
       },
+      queryCoverage: queryCoverage(db, totals, params, current.startDate, current.endDate, currentRow),
     };
   },
 
@@ -130,14 +191,15 @@ const insightHandlers: Record<string, InsightHandler> = {
     const limit = params.limit || 50;
     const f = filterSQL(params);
     const fv = filterValues(params);
+    const source = rollupSource(db, 'query', [current], { filters: params, positionMethod: params.positionMethod });
 
     const rows = db.query(`
       SELECT query,
         SUM(clicks) as clicks,
         SUM(impressions) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
+        ${ctrSQL()} as ctr,
+        ${positionSQL(params.positionMethod)} as avg_position
+      FROM ${source}
       WHERE date BETWEEN ? AND ? AND query IS NOT NULL${f}
       GROUP BY query
       ORDER BY clicks DESC
@@ -151,14 +213,15 @@ const insightHandlers: Record<string, InsightHandler> = {
     const limit = params.limit || 50;
     const f = filterSQL(params);
     const fv = filterValues(params);
+    const source = rollupSource(db, 'page', [current], { filters: params, positionMethod: params.positionMethod });
 
     const rows = db.query(`
       SELECT page,
         SUM(clicks) as clicks,
         SUM(impressions) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
+        ${ctrSQL()} as ctr,
+        ${positionSQL(params.positionMethod)} as avg_position
+      FROM ${source}
       WHERE date BETWEEN ? AND ? AND page IS NOT NULL${f}
       GROUP BY page
       ORDER BY clicks DESC
@@ -172,6 +235,7 @@ const insightHandlers: Record<string, InsightHandler> = {
     const limit = params.limit || 50;
     const f = filterSQL(params);
     const fv = filterValues(params);
+    const source = rollupSource(db, 'query', [current, prior], { filters: params, positionMethod: params.positionMethod });
 
     const rows = db.query(`
       SELECT query,
@@ -188,7 +252,7 @@ const insightHandlers: Record<string, InsightHandler> = {
         ) as pct_change,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END) as current_impressions,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END) as prior_impressions
-      FROM search_analytics
+      FROM ${source}
       WHERE query IS NOT NULL
         AND (date BETWEEN ? AND ? OR date BETWEEN ? AND ?)${f}
       GROUP BY query
@@ -218,6 +282,7 @@ const insightHandlers: Record<string, InsightHandler> = {
     const limit = params.limit || 50;
     const f = filterSQL(params);
     const fv = filterValues(params);
+    const source = rollupSource(db, 'query', [current, prior], { filters: params, positionMethod: params.positionMethod });
 
     const rows = db.query(`
       SELECT query,
@@ -234,7 +299,7 @@ const insightHandlers: Record<string, InsightHandler> = {
         ) as pct_change,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END) as current_impressions,
         SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END) as prior_impressions
-      FROM search_analytics
+      FROM ${source}
       WHERE query IS NOT NULL
         AND (date BETWEEN ? AND ? OR date BETWEEN ? AND ?)${f}
       GROUP BY query
@@ -264,6 +329,7 @@ const insightHandlers: Record<string, InsightHandler> = {
     const limit = params.limit || 50;
     const f = filterSQL(params);
     const fv = filterValues(params);
+    const source = rollupSource(db, 'page', [current, prior], { filters: params, positionMethod: params.positionMethod });
 
     const rows = db.query(`
       SELECT page,
@@ -278,7 +344,7 @@ const insightHandlers: Record<string, InsightHandler> = {
           / NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END), 0),
           1
         ) as pct_change
-      FROM search_analytics
+      FROM ${source}
       WHERE page IS NOT NULL
         AND (date BETWEEN ? AND ? OR date BETWEEN ? AND ?)${f}
       GROUP BY page
@@ -306,6 +372,7 @@ const insightHandlers: Record<string, InsightHandler> = {
     const limit = params.limit || 50;
     const f = filterSQL(params);
     const fv = filterValues(params);
+    const source = rollupSource(db, 'page', [current, prior], { filters: params, positionMethod: params.positionMethod });
 
     const rows = db.query(`
       SELECT page,
@@ -320,7 +387,7 @@ const insightHandlers: Record<string, InsightHandler> = {
           / NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END), 0),
           1
         ) as pct_change
-      FROM search_analytics
+      FROM ${source}
       WHERE page IS NOT NULL
         AND (date BETWEEN ? AND ? OR date BETWEEN ? AND ?)${f}
       GROUP BY page
@@ -349,14 +416,15 @@ const insightHandlers: Record<string, InsightHandler> = {
     const minImpressions = params.minImpressions || 100;
     const f = filterSQL(params);
     const fv = filterValues(params);
+    const source = rollupSource(db, 'query', [current], { filters: params, positionMethod: params.positionMethod });
 
     const rows = db.query(`
       SELECT query,
         SUM(clicks) as clicks,
         SUM(impressions) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
+        ${ctrSQL()} as ctr,
+        ${positionSQL(params.positionMethod)} as avg_position
+      FROM ${source}
       WHERE date BETWEEN ? AND ? AND query IS NOT NULL${f}
       GROUP BY query
       HAVING avg_position BETWEEN 4 AND 20
@@ -369,41 +437,39 @@ const insightHandlers: Record<string, InsightHandler> = {
   },
 
   device_breakdown: (db, params, current, _prior) => {
-    const f = filterSQL(params);
-    const fv = filterValues(params);
+    const source = aggregateSource(db, params, current.startDate, 'device');
 
     const rows = db.query(`
       SELECT device,
         SUM(clicks) as clicks,
         SUM(impressions) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
-      WHERE date BETWEEN ? AND ?${f}
+        ${ctrSQL()} as ctr,
+        ${positionSQL(params.positionMethod)} as avg_position
+      FROM ${source.table}
+      WHERE date BETWEEN ? AND ?${source.where}
       GROUP BY device
       ORDER BY clicks DESC
-    `, [current.startDate, current.endDate, ...fv]);
+    `, [current.startDate, current.endDate, ...source.values]);
 
     return { insight: 'device_breakdown', dateRange: current, rows };
   },
 
   country_breakdown: (db, params, current, _prior) => {
     const limit = params.limit || 50;
-    const f = filterSQL(params);
-    const fv = filterValues(params);
+    const source = aggregateSource(db, params, current.startDate, 'country');
 
     const rows = db.query(`
       SELECT country,
         SUM(clicks) as clicks,
         SUM(impressions) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
-      WHERE date BETWEEN ? AND ?${f}
+        ${ctrSQL()} as ctr,
+        ${positionSQL(params.positionMethod)} as avg_position
+      FROM ${source.table}
+      WHERE date BETWEEN ? AND ?${source.where}
       GROUP BY country
       ORDER BY clicks DESC
       LIMIT ?
-    `, [current.startDate, current.endDate, ...fv, limit]);
+    `, [current.startDate, current.endDate, ...source.values, limit]);
 
     return { insight: 'country_breakdown', dateRange: current, rows };
   },
@@ -413,8 +479,8 @@ const insightHandlers: Record<string, InsightHandler> = {
     if (!params.pageFilter) {
       throw new Error('page_queries insight requires the "pageFilter" parameter.');
     }
-    const fv: any[] = [];
-    let extraFilter = '';
+    const fv: any[] = [params.searchType || 'web'];
+    let extraFilter = ' AND search_type = ?';
     if (params.device) { extraFilter += ' AND device = ?'; fv.push(params.device); }
     if (params.country) { extraFilter += ' AND country = ?'; fv.push(params.country); }
 
@@ -422,8 +488,8 @@ const insightHandlers: Record<string, InsightHandler> = {
       SELECT query,
         SUM(clicks) as clicks,
         SUM(impressions) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
+        ${ctrSQL()} as ctr,
+        ${positionSQL(params.positionMethod)} as avg_position
       FROM search_analytics
       WHERE page LIKE ? AND date BETWEEN ? AND ? AND query IS NOT NULL${extraFilter}
       GROUP BY query
@@ -439,8 +505,8 @@ const insightHandlers: Record<string, InsightHandler> = {
     if (!params.queryFilter) {
       throw new Error('query_pages insight requires the "queryFilter" parameter.');
     }
-    const fv: any[] = [];
-    let extraFilter = '';
+    const fv: any[] = [params.searchType || 'web'];
+    let extraFilter = ' AND search_type = ?';
     if (params.device) { extraFilter += ' AND device = ?'; fv.push(params.device); }
     if (params.country) { extraFilter += ' AND country = ?'; fv.push(params.country); }
 
@@ -448,8 +514,8 @@ const insightHandlers: Record<string, InsightHandler> = {
       SELECT page,
         SUM(clicks) as clicks,
         SUM(impressions) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
+        ${ctrSQL()} as ctr,
+        ${positionSQL(params.positionMethod)} as avg_position
       FROM search_analytics
       WHERE query = ? AND date BETWEEN ? AND ? AND page IS NOT NULL${extraFilter}
       GROUP BY page
@@ -461,18 +527,17 @@ const insightHandlers: Record<string, InsightHandler> = {
   },
 
   daily_trend: (db, params, current, _prior) => {
-    const f = filterSQL(params);
-    const fv = filterValues(params);
+    const source = aggregateSource(db, params, current.startDate);
 
     const rows = db.query(`
       SELECT date,
         SUM(clicks) as clicks,
         SUM(impressions) as impressions
-      FROM search_analytics
-      WHERE date BETWEEN ? AND ?${f}
+      FROM ${source.table}
+      WHERE date BETWEEN ? AND ?${source.where}
       GROUP BY date
       ORDER BY date ASC
-    `, [current.startDate, current.endDate, ...fv]);
+    `, [current.startDate, current.endDate, ...source.values]);
 
     return { insight: 'daily_trend', dateRange: current, rows };
   },
@@ -481,24 +546,28 @@ const insightHandlers: Record<string, InsightHandler> = {
     const limit = params.limit || 50;
     const f = filterSQL(params);
     const fv = filterValues(params);
+    const st = params.searchType || 'web';
+    const source = rollupSource(db, 'query', [current], { filters: params, positionMethod: params.positionMethod });
+    const currentQueries = rollupSource(db, 'query', [current]);
+    const priorQueries = rollupSource(db, 'query', [prior]);
 
     const rows = db.query(`
       SELECT query,
         SUM(clicks) as clicks,
         SUM(impressions) as impressions,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
+        ${positionSQL(params.positionMethod)} as avg_position
+      FROM ${source}
       WHERE date BETWEEN ? AND ?
         AND query IS NOT NULL${f}
         AND query IN (
-          SELECT query FROM search_analytics WHERE date BETWEEN ? AND ? AND query IS NOT NULL
+          SELECT query FROM ${currentQueries} WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND search_type = ?
           EXCEPT
-          SELECT query FROM search_analytics WHERE date BETWEEN ? AND ? AND query IS NOT NULL
+          SELECT query FROM ${priorQueries} WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND search_type = ?
         )
       GROUP BY query
       ORDER BY impressions DESC
       LIMIT ?
-    `, [current.startDate, current.endDate, ...fv, current.startDate, current.endDate, prior.startDate, prior.endDate, limit]);
+    `, [current.startDate, current.endDate, ...fv, current.startDate, current.endDate, st, prior.startDate, prior.endDate, st, limit]);
 
     return { insight: 'new_queries', dateRange: { current, prior }, rows };
   },
@@ -507,28 +576,76 @@ const insightHandlers: Record<string, InsightHandler> = {
     const limit = params.limit || 50;
     const f = filterSQL(params);
     const fv = filterValues(params);
+    const st = params.searchType || 'web';
+    const source = rollupSource(db, 'query', [prior], { filters: params, positionMethod: params.positionMethod });
+    const priorQueries = rollupSource(db, 'query', [prior]);
+    const currentQueries = rollupSource(db, 'query', [current]);
 
     const rows = db.query(`
       SELECT query,
         SUM(clicks) as clicks,
         SUM(impressions) as impressions,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
+        ${positionSQL(params.positionMethod)} as avg_position
+      FROM ${source}
       WHERE date BETWEEN ? AND ?
         AND query IS NOT NULL${f}
         AND query IN (
-          SELECT query FROM search_analytics WHERE date BETWEEN ? AND ? AND query IS NOT NULL
+          SELECT query FROM ${priorQueries} WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND search_type = ?
           EXCEPT
-          SELECT query FROM search_analytics WHERE date BETWEEN ? AND ? AND query IS NOT NULL
+          SELECT query FROM ${currentQueries} WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND search_type = ?
         )
       GROUP BY query
       ORDER BY clicks DESC
       LIMIT ?
-    `, [prior.startDate, prior.endDate, ...fv, prior.startDate, prior.endDate, current.startDate, current.endDate, limit]);
+    `, [prior.startDate, prior.endDate, ...fv, prior.startDate, prior.endDate, st, current.startDate, current.endDate, st, limit]);
 
     return { insight: 'lost_queries', dateRange: { current, prior }, rows };
   },
 
+  search_appearance_breakdown: (db, params, current, prior) => {
+    // Appearance rows carry no query/page/device/country, so only searchType applies
+    const st = params.searchType || 'web';
+
+    const rows = db.query(`
+      SELECT search_appearance,
+        SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) as clicks,
+        SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END) as impressions,
+        ${periodCtrSQL()} as ctr,
+        ${periodPositionSQL(params.positionMethod)} as avg_position,
+        SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) as prior_clicks,
+        SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END) as prior_impressions,
+        ROUND(
+          (SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END)
+           - SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END))
+          * 100.0
+          / NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END), 0),
+          1
+        ) as clicks_change_pct
+      FROM search_appearance_analytics
+      WHERE search_type = ?
+        AND (date BETWEEN ? AND ? OR date BETWEEN ? AND ?)
+      GROUP BY search_appearance
+      HAVING impressions > 0 OR prior_impressions > 0
+      ORDER BY clicks DESC, impressions DESC
+    `, [
+      current.startDate, current.endDate,
+      current.startDate, current.endDate,
+      current.startDate, current.endDate,
+      current.startDate, current.endDate,
+      ...periodPositionParams(params.positionMethod, current),
+      prior.startDate, prior.endDate,
+      prior.startDate, prior.endDate,
+      current.startDate, current.endDate,
+      prior.startDate, prior.endDate,
+      prior.startDate, prior.endDate,
+      st,
+      current.startDate, current.endDate,
+      prior.startDate, prior.endDate,
+    ]);
+
+    return { insight: 'search_appearance_breakdown', dateRange: { current, prior }, rows };
+  },
+
   branded_split: (db, params, current, _prior) => {
     if (!params.brandTerms || params.brandTerms.length === 0) {
       throw new Error('branded_split insight requires the "brandTerms" parameter (array of brand terms).');
@@ -542,19 +659,586 @@ const insightHandlers: Record<string, InsightHandler> = {
       .map(() => 'LOWER(query) LIKE ?')
       .join(' OR ');
     const brandValues = params.brandTerms.map((t) => `%${t.toLowerCase()}%`);
+    const source = rollupSource(db, 'query', [current], { filters: params, positionMethod: params.positionMethod });
 
     const rows = db.query(`
       SELECT
         CASE WHEN (${brandConditions}) THEN 'branded' ELSE 'non-branded' END as segment,
         SUM(clicks) as clicks,
         SUM(impressions) as impressions,
-        ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-        ROUND(AVG(position), 1) as avg_position
-      FROM search_analytics
+        ${ctrSQL()} as ctr,
+        ${positionSQL(params.positionMethod)} as avg_position
+      FROM ${source}
       WHERE date BETWEEN ? AND ? AND query IS NOT NULL${f}
       GROUP BY segment
     `, [...brandValues, current.startDate, current.endDate, ...fv]);
 
     return { insight: 'branded_split', dateRange: current, brandTerms: params.brandTerms, rows };
   },
+
+  cannibalization: (db, params, current, prior) => {
+    const limit = params.limit || 50;
+    // Impressions a page needs on a query to count as competing for it
+    const minImpressions = params.minImpressions ?? 10;
+    const f = filterSQL(params);
+    const fv = filterValues(params);
+
+    // Query/page pairs with meaningful impressions, for queries with 2+ such pages
+    const pairs = db.query(`
+      WITH pairs AS (
+        SELECT query, page,
+          SUM(clicks) as clicks,
+          SUM(impressions) as impressions,
+          ${positionSQL(params.positionMethod)} as avg_position
+        FROM search_analytics
+        WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND page IS NOT NULL${f}
+        GROUP BY query, page
+        HAVING SUM(impressions) >= ?
+      )
+      SELECT * FROM pairs
+      WHERE query IN (SELECT query FROM pairs GROUP BY query HAVING COUNT(*) >= 2)
+    `, [current.startDate, current.endDate, ...fv, minImpressions]) as Array<{
+      query: string; page: string; clicks: number; impressions: number; avg_position: number;
+    }>;
+    if (pairs.length === 0) {
+      return { insight: 'cannibalization', dateRange: { current, prior }, minImpressions, rows: [] };
+    }
+
+    const queries = JSON.stringify([...new Set(pairs.map(p => p.query))]);
+
+    // Same pairs in the prior period, for each URL's share trend
+    const priorImpressions = new Map<string, number>();
+    const priorTotals = new Map<string, number>();
+    for (const row of db.query(`
+      SELECT query, page, SUM(impressions) as impressions
+      FROM search_analytics
+      WHERE date BETWEEN ? AND ? AND query IN (SELECT value FROM json_each(?)) AND page IS NOT NULL${f}
+      GROUP BY query, page
+    `, [prior.startDate, prior.endDate, queries, ...fv])) {
+      priorImpressions.set(`${row.query}\n${row.page}`, row.impressions);
+      priorTotals.set(row.query, (priorTotals.get(row.query) ?? 0) + row.impressions);
+    }
+
+    // How often the best-ranked URL changes from one day with data to the next
+    const flipsByQuery = new Map<string, { days: number; flips: number }>();
+    for (const row of db.query(`
+      WITH daily AS (
+        SELECT query, date, page,
+          SUM(impressions) as impressions,
+          SUM(position * impressions) / NULLIF(SUM(impressions), 0) as position
+        FROM search_analytics
+        WHERE date BETWEEN ? AND ? AND query IN (SELECT value FROM json_each(?)) AND page IS NOT NULL${f}
+        GROUP BY query, date, page
+      ),
+      leaders AS (
+        SELECT query, date, page,
+          ROW_NUMBER() OVER (PARTITION BY query, date ORDER BY position ASC, impressions DESC, page) as rn
+        FROM daily
+      ),
+      sequence AS (
+        SELECT query, page, LAG(page) OVER (PARTITION BY query ORDER BY date) as previous
+        FROM leaders
+        WHERE rn = 1
+      )
+      SELECT query, COUNT(*) as days, SUM(CASE WHEN previous IS NOT NULL AND previous <> page THEN 1 ELSE 0 END) as flips
+      FROM sequence
+      GROUP BY query
+    `, [current.startDate, current.endDate, queries, ...fv])) {
+      flipsByQuery.set(row.query, { days: row.days, flips: row.flips });
+    }
+
+    const byQuery = new Map<string, typeof pairs>();
+    for (const pair of pairs) {
+      const list = byQuery.get(pair.query) ?? [];
+      list.push(pair);
+      byQuery.set(pair.query, list);
+    }
+
+    const rows = [...byQuery.entries()].map(([query, urls]) => {
+      const clicks = urls.reduce((sum, u) => sum + u.clicks, 0);
+      const impressions = urls.reduce((sum, u) => sum + u.impressions, 0);
+      const priorTotal = priorTotals.get(query) ?? 0;
+      const { days, flips } = flipsByQuery.get(query) ?? { days: 0, flips: 0 };
+      const clickSplit = clicks > 0 ? evenness(urls.map(u => u.clicks / clicks)) : null;
+      const impressionSplit = evenness(urls.map(u => u.impressions / impressions));
+      const flipRate = days > 1 ? round(flips / (days - 1), 3) : 0;
+
+      const competingUrls = urls
+        .sort((a, b) => b.impressions - a.impressions)
+        .map(u => {
+          const impressionShare = u.impressions / impressions;
+          const priorPageImpressions = priorImpressions.get(`${query}\n${u.page}`) ?? 0;
+          const priorShare = priorTotal > 0 ? priorPageImpressions / priorTotal : null;
+          const shareChange = priorPageImpressions > 0 && priorShare !== null ? impressionShare - priorShare : null;
+          const trend = shareChange === null ? 'new'
+            : shareChange >= SHARE_TREND_THRESHOLD ? 'rising'
+            : shareChange <= -SHARE_TREND_THRESHOLD ? 'falling'
+            : 'steady';
+          return {
+            page: u.page,
+            clicks: u.clicks,
+            impressions: u.impressions,
+            click_share: clicks > 0 ? round(u.clicks / clicks, 3) : null,
+            impression_share: round(impressionShare, 3),
+            prior_impression_share: priorShare === null ? null : round(priorShare, 3),
+            trend,
+            avg_position: u.avg_position,
+          };
+        });
+
+      // Mostly how evenly traffic splits; a flapping ranking URL adds to it
+      const split = clickSplit ?? impressionSplit;
+      const score = Math.round(100 * (0.4 * split + 0.4 * impressionSplit + 0.2 * flipRate));
+
+      return {
+        query,
+        clicks,
+        impressions,
+        pages: urls.length,
+        click_split: clickSplit,
+        impression_split: impressionSplit,
+        days_ranked: days,
+        ranking_url_flips: flips,
+        flip_rate: flipRate,
+        score,
+        competing_urls: competingUrls,
+      };
+    });
+
+    rows.sort((a, b) => b.score - a.score || b.impressions - a.impressions);
+
+    return {
+      insight: 'cannibalization',
+      dateRange: { current, prior },
+      minImpressions,
+      totalQueries: rows.length,
+      rows: rows.slice(0, limit),
+    };
+  },
+
+  ctr_underperformers: (db, params, current, _prior) => {
+    const limit = params.limit || 50;
+    const minImpressions = params.minImpressions ?? 100;
+    const searchType = params.searchType || 'web';
+    const f = filterSQL(params);
+    const fv = filterValues(params);
+    const segment = segmentSQL(params.brandTerms);
+    const model = fitCtrModel(db, { endDate: current.endDate, searchType, brandTerms: params.brandTerms });
+
+    // Each pair's traffic by device and position bucket, so expected clicks
+    // follow the curve for where and on what it was actually shown
+    const breakdown = db.query(`
+      WITH pairs AS (
+        SELECT query, page
+        FROM search_analytics
+        WHERE date BETWEEN ? AND ? AND query IS NOT NULL AND page IS NOT NULL${f}
+        GROUP BY query, page
+        HAVING SUM(impressions) >= ?
+      )
+      SELECT query, page, COALESCE(device, 'unknown') as device, ${bucketSQL()} as bucket, ${segment.sql} as segment,
+        SUM(clicks) as clicks,
+        SUM(impressions) as impressions,
+        SUM(position * impressions) as position_weight
+      FROM search_analytics
+      WHERE date BETWEEN ? AND ? AND (query, page) IN (SELECT query, page FROM pairs)${f}
+      GROUP BY query, page, device, bucket
+    `, [
+      current.startDate, current.endDate, ...fv, minImpressions,
+      ...segment.values, current.startDate, current.endDate, ...fv,
+    ]);
+
+    const byPair = new Map<string, { query: string; page: string; segment: string; clicks: number; impressions: number; positionWeight: number; expectedClicks: number }>();
+    for (const row of breakdown) {
+      const key = `${row.query}\u0000${row.page}`;
+      const pair = byPair.get(key)
+        ?? { query: row.query, page: row.page, segment: row.segment, clicks: 0, impressions: 0, positionWeight: 0, expectedClicks: 0 };
+      pair.clicks += row.clicks;
+      pair.impressions += row.impressions;
+      pair.positionWeight += row.position_weight;
+      pair.expectedClicks += row.impressions * ctrForBucket(model, row.bucket, row.device, row.segment);
+      byPair.set(key, pair);
+    }
+
+    const rows = [...byPair.values()]
+      .map(pair => {
+        const expectedCtr = pair.expectedClicks / pair.impressions;
+        const ctr = pair.clicks / pair.impressions;
+        return {
+          query: pair.query,
+          page: pair.page,
+          ...(params.brandTerms?.length ? { segment: pair.segment } : {}),
+          clicks: pair.clicks,
+          impressions: pair.impressions,
+          ctr: round(ctr, 4),
+          expected_ctr: round(expectedCtr, 4),
+          ctr_ratio: expectedCtr > 0 ? round(ctr / expectedCtr, 2) : null,
+          expected_clicks: round(pair.expectedClicks, 1),
+          missed_clicks: round(pair.expectedClicks - pair.clicks, 1),
+          avg_position: round(pair.positionWeight / pair.impressions, 1),
+        };
+      })
+      .filter(row => row.ctr_ratio !== null && row.ctr_ratio <= UNDERPERFORMANCE_RATIO && row.missed_clicks >= 1);
+
+    rows.sort((a, b) => b.missed_clicks - a.missed_clicks);
+
+    return {
+      insight: 'ctr_underperformers',
+      dateRange: current,
+      minImpressions,
+      totalPairs: rows.length,
+      totalMissedClicks: round(rows.reduce((sum, row) => sum + row.missed_clicks, 0), 1),
+      rows: rows.slice(0, limit),
+      ctrModel: model,
+    };
+  },
+
+  uplift_forecast: (db, params, current, prior) => {
+    const targets = [...new Set(params.targetPositions?.length ? params.targetPositions : [3])].sort((a, b) => a - b);
+    if (targets.some(t => !Number.isFinite(t) || t < 1)) {
+      throw new Error('uplift_forecast "targetPositions" must be positions of 1 or more, e.g. [1, 3].');
+    }
+    const limit = params.limit || 50;
+    const searchType = params.searchType || 'web';
+    const f = filterSQL(params);
+    const fv = filterValues(params);
+    const segment = segmentSQL(params.brandTerms);
+    const model = fitCtrModel(db, { endDate: current.endDate, searchType, brandTerms: params.brandTerms });
+
+    // A supplied query list, or the queries the opportunities insight picks
+    const source = params.queries?.length ? 'queries' : 'opportunities';
+    const queries: string[] = params.queries?.length
+      ? [...new Set(params.queries)]
+      : insightHandlers.opportunities(db, params, current, prior).rows.map((row: any) => row.query);
+
+    const breakdown = db.query(`
+      SELECT query, page, COALESCE(device, 'unknown') as device, ${bucketSQL()} as bucket, ${segment.sql} as segment,
+        SUM(clicks) as clicks,
+        SUM(impressions) as impressions,
+        SUM(position * impressions) as position_weight
+      FROM search_analytics
+      WHERE date BETWEEN ? AND ? AND query IN (SELECT value FROM json_each(?)) AND page IS NOT NULL${f}
+      GROUP BY query, page, device, bucket
+    `, [...segment.values, current.startDate, current.endDate, JSON.stringify(queries), ...fv]);
+
+    type Forecast = { extra: number; low: number; high: number };
+    type Group = { key: string; clicks: number; impressions: number; positionWeight: number; queries: Set<string>; pages: Set<string>; forecasts: Forecast[] };
+    const groups = { query: new Map<string, Group>(), page: new Map<string, Group>(), directory: new Map<string, Group>() };
+    const totals = targets.map(() => ({ extra: 0, low: 0, high: 0 }));
+    let currentClicks = 0;
+
+    for (const row of breakdown) {
+      currentClicks += row.clicks;
+      // Rows already at or above a target gain nothing from it. Others gain
+      // the curve's difference between where they rank and the target, so a
+      // snippet that underperforms today keeps underperforming.
+      const rowForecasts = targets.map(target => {
+        const targetBucket = bucketFor(target);
+        if (row.bucket <= targetBucket) return { extra: 0, low: 0, high: 0 };
+        const now = ctrForBucket(model, row.bucket, row.device, row.segment);
+        const then = curvePoint(model, targetBucket, row.device, row.segment);
+        return {
+          extra: row.impressions * Math.max(then.ctr - now, 0),
+          low: row.impressions * Math.max(then.ctrLow - now, 0),
+          high: row.impressions * Math.max(then.ctrHigh - now, 0),
+        };
+      });
+      rowForecasts.forEach((forecast, i) => {
+        totals[i].extra += forecast.extra;
+        totals[i].low += forecast.low;
+        totals[i].high += forecast.high;
+      });
+      const keys = { query: row.query, page: row.page, directory: directoryOf(row.page) };
+      for (const dimension of ['query', 'page', 'directory'] as const) {
+        const group = groups[dimension].get(keys[dimension])
+          ?? { key: keys[dimension], clicks: 0, impressions: 0, positionWeight: 0, queries: new Set(), pages: new Set(), forecasts: targets.map(() => ({ extra: 0, low: 0, high: 0 })) };
+        group.clicks += row.clicks;
+        group.impressions += row.impressions;
+        group.positionWeight += row.position_weight;
+        group.queries.add(row.query);
+        group.pages.add(row.page);
+        rowForecasts.forEach((forecast, i) => {
+          group.forecasts[i].extra += forecast.extra;
+          group.forecasts[i].low += forecast.low;
+          group.forecasts[i].high += forecast.high;
+        });
+        groups[dimension].set(keys[dimension], group);
+      }
+    }
+
+    const forecastRows = (forecasts: Forecast[], clicks: number) => forecasts.map((forecast, i) => ({
+      target_position: targets[i],
+      extra_clicks: Math.round(forecast.extra),
+      extra_clicks_low: Math.round(forecast.low),
+      extra_clicks_high: Math.round(forecast.high),
+      projected_clicks: Math.round(clicks + forecast.extra),
+    }));
+    const ranked = (dimension: keyof typeof groups) => [...groups[dimension].values()]
+      .sort((a, b) => b.forecasts[0].extra - a.forecasts[0].extra || b.impressions - a.impressions);
+    const common = (group: Group) => ({
+      clicks: group.clicks,
+      impressions: group.impressions,
+      ctr: round(group.clicks / group.impressions, 4),
+      avg_position: round(group.positionWeight / group.impressions, 1),
+      forecasts: forecastRows(group.forecasts, group.clicks),
+    });
+
+    const days = Math.round((Date.parse(current.endDate) - Date.parse(current.startDate)) / 86_400_000) + 1;
+    const totalRows = forecastRows(totals, currentClicks);
+    const topDirectories = ranked('directory').filter(group => group.forecasts[0].extra >= 0.5).slice(0, 3);
+    const summary = totalRows.map(total =>
+      `Moving ${groups.query.size === 1 ? 'this query' : `these ${groups.query.size} queries`} to position ${total.target_position} ` +
+      `is worth an estimated +${total.extra_clicks.toLocaleString('en-US')} clicks per ${days} days ` +
+      `(range +${total.extra_clicks_low.toLocaleString('en-US')} to +${total.extra_clicks_high.toLocaleString('en-US')}), ` +
+      `from ${currentClicks.toLocaleString('en-US')} to about ${total.projected_clicks.toLocaleString('en-US')}.`
+    );
+    if (topDirectories.length > 0) {
+      summary.push(`Largest gains at position ${targets[0]}: ` +
+        topDirectories.map(group => `${group.key} (+${Math.round(group.forecasts[0].extra).toLocaleString('en-US')})`).join(', ') + '.');
+    }
+    summary.push(`Estimates use this site's own CTR at each position over ${model.dateRange.startDate} to ${model.dateRange.endDate} ` +
+      'and assume impressions stay the same; the range reflects how CTR varies between queries at the target position.');
+
+    return {
+      insight: 'uplift_forecast',
+      dateRange: current,
+      source,
+      targetPositions: targets,
+      summary,
+      totals: totalRows.map(total => ({ ...total, queries: groups.query.size, current_clicks: currentClicks })),
+      ...(source === 'queries' ? { queriesWithoutData: queries.filter(query => !groups.query.has(query)) } : {}),
+      queries: ranked('query').slice(0, limit).map(group => ({ query: group.key, pages: group.pages.size, ...common(group) })),
+      pages: ranked('page').slice(0, limit).map(group => ({ page: group.key, queries: group.queries.size, ...common(group) })),
+      directories: ranked('directory').slice(0, limit).map(group => ({
+        directory: group.key, pages: group.pages.size, queries: group.queries.size, ...common(group),
+      })),
+      ctrModel: model,
+    };
+  },
+
+  anomalies: (db, params, current, _prior) => {
+    const limit = params.limit || 20;
+    const granularity = params.granularity || 'day';
+    const historyStart = addDays(current.startDate, -7 * ANOMALY_BASELINE_PERIODS);
+    const source = aggregateSource(db, params, historyStart);
+
+    const days = db.query(`
+      SELECT date,
+        SUM(clicks) as clicks,
+        SUM(impressions) as impressions,
+        SUM(position * impressions) as position_weight
+      FROM ${source.table}
+      WHERE date BETWEEN ? AND ?${source.where}
+      GROUP BY date
+      ORDER BY date ASC
+    `, [historyStart, current.endDate, ...source.values]) as Array<{ date: string; clicks: number; impressions: number; position_weight: number }>;
+
+    // A synced day with no rows had no traffic, so it counts as a zero day
+    // rather than a hole; only days no completed sync covers stay missing
+    const freshDates = new Set(db.getFreshDates(params.searchType || 'web'));
+    const stored = new Set(days.map(day => day.date));
+    for (const date of db.getSyncedDates(historyStart, current.endDate)) {
+      if (stored.has(date) || freshDates.has(date)) continue;
+      days.push({ date, clicks: 0, impressions: 0, position_weight: 0 });
+    }
+    days.sort((a, b) => a.date.localeCompare(b.date));
+
+    // Days, or complete Monday-to-Sunday weeks, keyed by their first day.
+    // Either way the baseline is the same slot 1 to 8 weeks earlier, which
+    // for days means the same weekday.
+    type Period = { startDate: string; endDate: string; clicks: number; impressions: number; positionWeight: number; days: number };
+    const periods = new Map<string, Period>();
+    for (const day of days) {
+      const startDate = granularity === 'week' ? addDays(day.date, -((new Date(day.date + 'T00:00:00Z').getUTCDay() + 6) % 7)) : day.date;
+      const period = periods.get(startDate)
+        ?? { startDate, endDate: granularity === 'week' ? addDays(startDate, 6) : startDate, clicks: 0, impressions: 0, positionWeight: 0, days: 0 };
+      period.clicks += day.clicks;
+      period.impressions += day.impressions;
+      period.positionWeight += day.position_weight;
+      period.days++;
+      periods.set(startDate, period);
+    }
+    const complete = (period: Period | undefined): period is Period => !!period && period.days === (granularity === 'week' ? 7 : 1);
+
+    const found = [...periods.values()]
+      .filter(period => complete(period) && period.startDate >= current.startDate && period.endDate <= current.endDate)
+      .flatMap(period => {
+        const baseline = Array.from({ length: ANOMALY_BASELINE_PERIODS }, (_, i) => periods.get(addDays(period.startDate, -7 * (i + 1))))
+          .filter(complete);
+        if (baseline.length < ANOMALY_MIN_BASELINE) return [];
+
+        const metrics = ANOMALY_METRICS.flatMap(metric => {
+          const actual = metricValue(period, metric);
+          const history = baseline.map(b => metricValue(b, metric)).filter((v): v is number => v !== null);
+          if (actual === null || history.length < ANOMALY_MIN_BASELINE) return [];
+          const expected = median(history);
+          // Robust spread, floored so a flat history does not turn noise into anomalies
+          const spread = Math.max(
+            1.4826 * median(history.map(v => Math.abs(v - expected))),
+            0.02 * Math.abs(expected),
+            metric === 'clicks' || metric === 'impressions' ? Math.sqrt(Math.max(expected, 1)) : 0,
+            1e-9
+          );
+          const z = (actual - expected) / spread;
+          if (Math.abs(z) < ANOMALY_Z_THRESHOLD) return [];
+          const digits = metric === 'ctr' ? 4 : 1;
+          return [{
+            metric,
+            actual: round(actual, digits),
+            expected: round(expected, digits),
+            change_pct: expected === 0 ? null : round(((actual - expected) / expected) * 100, 1),
+            z_score: round(z, 1),
+            direction: actual > expected ? 'up' as const : 'down' as const,
+          }];
+        });
+        if (metrics.length === 0) return [];
+        metrics.sort((a, b) => Math.abs(b.z_score) - Math.abs(a.z_score));
+        return [{ period, baseline, metrics }];
+      })
+      .sort((a, b) => Math.abs(b.metrics[0].z_score) - Math.abs(a.metrics[0].z_score))
+      .slice(0, limit);
+
+    const f = filterSQL(params);
+    const fv = filterValues(params);
+    const anomalies = found
+      .map(({ period, baseline, metrics }) => {
+        const primary = metrics[0];
+        const baselineDates = baseline.flatMap(b => Array.from({ length: b.days }, (_, i) => addDays(b.startDate, i)));
+        const drivers: Record<string, any[]> = {};
+
+        // What each page, query, device and country added to the change in
+        // the primary metric, against its average over the baseline periods
+        for (const dimension of ['page', 'query', 'device', 'country'] as const) {
+          const table = rollupSource(db, dimension, [{ startDate: historyStart, endDate: current.endDate }], { filters: params, maxGrain: 'day' });
+          const members = db.query(`
+            SELECT member,
+              SUM(CASE WHEN in_period THEN clicks ELSE 0 END) as clicks,
+              SUM(CASE WHEN in_period THEN impressions ELSE 0 END) as impressions,
+              SUM(CASE WHEN in_period THEN position_weight ELSE 0 END) as position_weight,
+              SUM(CASE WHEN in_period THEN 0 ELSE clicks END) as baseline_clicks,
+              SUM(CASE WHEN in_period THEN 0 ELSE impressions END) as baseline_impressions,
+              SUM(CASE WHEN in_period THEN 0 ELSE position_weight END) as baseline_position_weight
+            FROM (
+              SELECT ${dimension} as member, date BETWEEN ? AND ? as in_period, clicks, impressions, position * impressions as position_weight
+              FROM ${table}
+              WHERE (date BETWEEN ? AND ? OR date IN (SELECT value FROM json_each(?))) AND ${dimension} IS NOT NULL${f}
+            )
+            GROUP BY member
+          `, [
+            period.startDate, period.endDate,
+            period.startDate, period.endDate, JSON.stringify(baselineDates), ...fv,
+          ]).map((m: any) => ({
+            ...m,
+            baseline_clicks: m.baseline_clicks / baseline.length,
+            baseline_impressions: m.baseline_impressions / baseline.length,
+            baseline_position_weight: m.baseline_position_weight / baseline.length,
+          }));
+
+          const totalImpressions = members.reduce((sum: number, m: any) => sum + m.impressions, 0);
+          const totalBaselineImpressions = members.reduce((sum: number, m: any) => sum + m.baseline_impressions, 0);
+          // Additive shares of the change: they sum to the change across all members
+          const contribution = (m: any): number => {
+            if (primary.metric === 'clicks') return m.clicks - m.baseline_clicks;
+            if (primary.metric === 'impressions') return m.impressions - m.baseline_impressions;
+            const [now, before] = primary.metric === 'ctr'
+              ? [m.clicks, m.baseline_clicks]
+              : [m.position_weight, m.baseline_position_weight];
+            return (totalImpressions ? now / totalImpressions : 0) - (totalBaselineImpressions ? before / totalBaselineImpressions : 0);
+          };
+          const totalChange = members.reduce((sum: number, m: any) => sum + contribution(m), 0);
+          const sign = primary.direction === 'up' ? 1 : -1;
+          const digits = primary.metric === 'ctr' ? 4 : primary.metric === 'position' ? 2 : 1;
+
+          drivers[dimension] = members
+            .map((m: any) => ({ m, change: contribution(m) }))
+            .filter(({ change }: { change: number }) => change * sign > 0)
+            .sort((a: any, b: any) => b.change * sign - a.change * sign)
+            .slice(0, ANOMALY_DRIVERS)
+            .map(({ m, change }: { m: any; change: number }) => ({
+              [dimension]: m.member,
+              clicks: m.clicks,
+              baseline_clicks: round(m.baseline_clicks, 1),
+              impressions: m.impressions,
+              baseline_impressions: round(m.baseline_impressions, 1),
+              ctr: m.impressions ? round(m.clicks / m.impressions, 4) : null,
+              baseline_ctr: m.baseline_impressions ? round(m.baseline_clicks / m.baseline_impressions, 4) : null,
+              avg_position: m.impressions ? round(m.position_weight / m.impressions, 1) : null,
+              baseline_position: m.baseline_impressions ? round(m.baseline_position_weight / m.baseline_impressions, 1) : null,
+              contribution: round(change, digits),
+              share_of_change: totalChange ? round(change / totalChange, 2) : null,
+            }));
+        }
+
+        const dates = Array.from({ length: period.days }, (_, i) => addDays(period.startDate, i));
+        return {
+          startDate: period.startDate,
+          endDate: period.endDate,
+          ...(granularity === 'day' ? { weekday: WEEKDAYS[new Date(period.startDate + 'T00:00:00Z').getUTCDay()] } : {}),
+          provisional: dates.some(date => freshDates.has(date)),
+          baselinePeriods: baseline.length,
+          primaryMetric: primary.metric,
+          metrics,
+          drivers,
+        };
+      })
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+    return {
+      insight: 'anomalies',
+      dateRange: current,
+      granularity,
+      zThreshold: ANOMALY_Z_THRESHOLD,
+      anomalies,
+    };
+  },
 };
+
+// Actual CTR at or below this fraction of expected counts as underperforming
+const UNDERPERFORMANCE_RATIO = 0.7;
+
+// Anomalies: baseline periods looked back over (weeks), how many must exist,
+// the robust z-score that counts as unusual, and drivers kept per dimension
+const ANOMALY_BASELINE_PERIODS = 8;
+const ANOMALY_MIN_BASELINE = 4;
+const ANOMALY_Z_THRESHOLD = 3.5;
+const ANOMALY_DRIVERS = 5;
+const ANOMALY_METRICS = ['clicks', 'impressions', 'ctr', 'position'] as const;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Change in a URL's impression share (vs the prior period) reported as rising/falling
+const SHARE_TREND_THRESHOLD = 0.1;
+
+/**
+ * How evenly a total is split across shares: 0 when one share holds
+ * everything, 1 when all are equal. Normalised Gini-Simpson index.
+ */
+function evenness(shares: number[]): number {
+  if (shares.length < 2) return 0;
+  const concentration = shares.reduce((sum, s) => sum + s * s, 0);
+  return round((1 - concentration) / (1 - 1 / shares.length), 3);
+}
+
+function metricValue(
+  period: { clicks: number; impressions: number; positionWeight: number },
+  metric: typeof ANOMALY_METRICS[number]
+): number | null {
+  if (metric === 'clicks') return period.clicks;
+  if (metric === 'impressions') return period.impressions;
+  if (period.impressions === 0) return null;
+  return metric === 'ctr' ? period.clicks / period.impressions : period.positionWeight / period.impressions;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** First path segment of a URL as a directory, e.g. "/blog/"; "/" for top-level pages. */
+function directoryOf(page: string): string {
+  try {
+    const parts = new URL(page).pathname.split('/');
+    return parts.length > 2 ? `/${parts[1]}/` : '/';
+  } catch {
+    return '/';
+  }
+}
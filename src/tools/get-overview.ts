@@ -1,18 +1,25 @@
 import { existsSync } from 'fs';
 import { join } from 'path';
-import { GscClient } from '../core/GscClient.js';
+import type { GscAccounts } from '../core/credentials.js';
 import { Database } from '../core/Database.js';
 import { sanitizeSiteUrl, getDataDir, getPeriodDates } from './helpers.js';
+import { aggregateSource } from './totals.js';
+import { ctrSQL, positionSQL } from './metrics.js';
+import type { PositionMethod, SearchType } from '../types/index.js';
 
 export interface OverviewParams {
   dateRange?: string;
   sortBy?: 'alpha' | 'clicks' | 'impressions' | 'ctr' | 'position';
   search?: string;
+  searchType?: SearchType;
+  positionMethod?: PositionMethod;
 }
 
 interface PropertyOverview {
   siteUrl: string;
   domain: string;
+  /** Configured account the property is synced with. */
+  account: string;
   lastSyncedAt: string | null;
   current: {
     clicks: number;
@@ -31,20 +38,22 @@ interface PropertyOverview {
 
 interface OverviewData {
   dateRange: string;
+  searchType: SearchType;
+  positionMethod: PositionMethod;
   sortBy: string;
   properties: PropertyOverview[];
 }
 
 export async function getOverviewData(
-  gscClient: GscClient,
+  accounts: GscAccounts,
   params: OverviewParams
 ): Promise<OverviewData> {
-  const { dateRange = '28d', sortBy = 'alpha', search } = params;
+  const { dateRange = '28d', sortBy = 'alpha', search, searchType = 'web', positionMethod = 'weighted' } = params;
   const { current, prior } = getPeriodDates(dateRange);
   const dataDir = getDataDir();
 
-  // Get all properties from GSC API
-  const allProperties = await gscClient.listProperties();
+  // Get all properties from every configured account
+  const allProperties = await accounts.listProperties();
   const properties: PropertyOverview[] = [];
 
   const pctChange = (curr: number, prev: number): number | null =>
@@ -68,27 +77,29 @@ export async function getOverviewData(
 
     const db = new Database(dbPath);
     try {
+      const totals = aggregateSource(db, { searchType }, prior.startDate);
+
       // Summary for current period
       const currentSummary = db.queryOne(`
         SELECT
           COALESCE(SUM(clicks), 0) as clicks,
           COALESCE(SUM(impressions), 0) as impressions,
-          ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-          ROUND(AVG(position), 1) as avg_position
-        FROM search_analytics
-        WHERE date BETWEEN ? AND ?
-      `, [current.startDate, current.endDate]);
+          ${ctrSQL()} as ctr,
+          ${positionSQL(positionMethod)} as avg_position
+        FROM ${totals.table}
+        WHERE date BETWEEN ? AND ?${totals.where}
+      `, [current.startDate, current.endDate, ...totals.values]);
 
       // Summary for prior period
       const priorSummary = db.queryOne(`
         SELECT
           COALESCE(SUM(clicks), 0) as clicks,
           COALESCE(SUM(impressions), 0) as impressions,
-          ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4) as ctr,
-          ROUND(AVG(position), 1) as avg_position
-        FROM search_analytics
-        WHERE date BETWEEN ? AND ?
-      `, [prior.startDate, prior.endDate]);
+          ${ctrSQL()} as ctr,
+          ${positionSQL(positionMethod)} as avg_position
+        FROM ${totals.table}
+        WHERE date BETWEEN ? AND ?${totals.where}
+      `, [prior.startDate, prior.endDate, ...totals.values]);
 
       // Skip if no data at all
       if (currentSummary.clicks === 0 && currentSummary.impressions === 0 &&
@@ -99,11 +110,11 @@ export async function getOverviewData(
         SELECT date,
           SUM(clicks) as clicks,
           SUM(impressions) as impressions
-        FROM search_analytics
-        WHERE date BETWEEN ? AND ?
+        FROM ${totals.table}
+        WHERE date BETWEEN ? AND ?${totals.where}
         GROUP BY date
         ORDER BY date ASC
-      `, [current.startDate, current.endDate]);
+      `, [current.startDate, current.endDate, ...totals.values]);
 
       // Last synced
       const meta = db.getPropertyMeta(prop.siteUrl);
@@ -111,6 +122,7 @@ export async function getOverviewData(
       properties.push({
         siteUrl: prop.siteUrl,
         domain,
+        account: prop.account,
         lastSyncedAt: meta?.lastSyncedAt ?? null,
         current: {
           clicks: currentSummary.clicks,
@@ -153,5 +165,5 @@ export async function getOverviewData(
       break;
   }
 
-  return { dateRange, sortBy, properties };
+  return { dateRange, searchType, positionMethod, sortBy, properties };
 }
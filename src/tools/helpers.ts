@@ -1,4 +1,4 @@
-import { existsSync, mkdirSync } from 'fs';
+import { existsSync, mkdirSync, readdirSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
 
@@ -45,6 +45,18 @@ export function getDbPath(siteUrl: string): string {
   return join(getDataDir(), sanitizeSiteUrl(siteUrl) + '.db');
 }
 
+/**
+ * List every property database in the data directory.
+ * Migration backups (*.bak) and SQLite sidecar files are skipped.
+ */
+export function listDbPaths(): string[] {
+  const dataDir = getDataDir();
+  return readdirSync(dataDir)
+    .filter(name => name.endsWith('.db'))
+    .sort()
+    .map(name => join(dataDir, name));
+}
+
 function formatDate(d: Date): string {
   return d.toISOString().split('T')[0];
 }
@@ -227,6 +239,27 @@ export function defaultEndDate(): string {
   return formatDate(new Date());
 }
 
+/**
+ * Shift a YYYY-MM-DD date by whole days. Works in UTC, so a daylight
+ * saving change never skips or repeats a day.
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(date + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Whole days from one YYYY-MM-DD date to another. */
+export function daysBetween(dateFrom: string, dateTo: string): number {
+  return Math.round((Date.parse(dateTo + 'T00:00:00Z') - Date.parse(dateFrom + 'T00:00:00Z')) / 86_400_000);
+}
+
+/** Round to a number of decimal places. */
+export function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
 
 /**
  * Render an ASCII sparkline from an array of numbers.
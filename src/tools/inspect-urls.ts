@@ -0,0 +1,145 @@
+import { existsSync } from 'fs';
+import { Database } from '../core/Database.js';
+import type { GscAccounts } from '../core/credentials.js';
+import { getDbPath, parseDateRange } from './helpers.js';
+import { aggregateSource } from './totals.js';
+import type { SearchType, UrlInspectionRecord } from '../types/index.js';
+
+// URL Inspection API quota per property per day
+export const DAILY_INSPECTION_QUOTA = 2000;
+const DEFAULT_TOP_N = 25;
+const DEFAULT_REFRESH_AFTER_DAYS = 7;
+
+export interface InspectUrlsParams {
+  siteUrl: string;
+  /** Pages to inspect. When omitted, the top `topN` pages by clicks. */
+  urls?: string[];
+  topN?: number;
+  dateRange?: string;
+  searchType?: SearchType;
+  /** Reuse a stored inspection younger than this instead of spending quota. */
+  refreshAfterDays?: number;
+}
+
+export interface InspectedUrl {
+  page: string;
+  /** 'inspected' used quota now; 'stored' is a recent earlier inspection. */
+  source: 'inspected' | 'stored';
+  result: UrlInspectionRecord;
+}
+
+export interface InspectUrlsResult {
+  siteUrl: string;
+  account: string;
+  requested: number;
+  inspected: number;
+  reused: number;
+  /** Pages left out because the daily quota ran out. */
+  skippedForQuota: string[];
+  errors: Array<{ page: string; error: string }>;
+  quota: { limit: number; usedLast24h: number; remaining: number };
+  results: InspectedUrl[];
+}
+
+/**
+ * Inspect pages with the URL Inspection API and store each result in the
+ * property's url_inspection table.
+ *
+ * Quota use is counted from the inspections stored in the last 24 hours,
+ * so the budget holds across runs and processes. A 429 from Google means
+ * the quota is spent elsewhere too (e.g. in the Search Console UI); the
+ * batch stops there and the remaining pages are reported as skipped.
+ */
+export async function inspectUrls(accounts: GscAccounts, params: InspectUrlsParams): Promise<InspectUrlsResult> {
+  const {
+    siteUrl,
+    topN = DEFAULT_TOP_N,
+    dateRange = '28d',
+    searchType = 'web',
+    refreshAfterDays = DEFAULT_REFRESH_AFTER_DAYS,
+  } = params;
+  const dbPath = getDbPath(siteUrl);
+  if (!existsSync(dbPath)) {
+    throw new Error(`No database found for "${siteUrl}". Run sync_gsc_data first.`);
+  }
+
+  const { name: account, client } = await accounts.accountFor(siteUrl);
+  const db = new Database(dbPath);
+
+  try {
+    const pages = params.urls?.length
+      ? [...new Set(params.urls)]
+      : topPagesByClicks(db, dateRange, searchType, topN);
+
+    const refreshBefore = Date.now() - refreshAfterDays * 86_400_000;
+    const stored = db.getLatestInspections(pages);
+    const results: InspectedUrl[] = [];
+    const toInspect: string[] = [];
+    for (const page of pages) {
+      const previous = stored.get(page);
+      if (previous && parseSqliteTime(previous.inspectedAt) > refreshBefore) {
+        results.push({ page, source: 'stored', result: previous });
+      } else {
+        toInspect.push(page);
+      }
+    }
+
+    const usedBefore = db.countRecentInspections();
+    const budget = Math.max(0, DAILY_INSPECTION_QUOTA - usedBefore);
+    const skippedForQuota = toInspect.slice(budget);
+    const errors: Array<{ page: string; error: string }> = [];
+    let inspected = 0;
+
+    for (const [i, page] of toInspect.slice(0, budget).entries()) {
+      try {
+        const result = await client.inspectUrl(siteUrl, page);
+        db.insertUrlInspection(page, result);
+        results.push({ page, source: 'inspected', result: db.getLatestInspections([page]).get(page)! });
+        inspected++;
+      } catch (err: any) {
+        const status = Number(err?.code || err?.response?.status || err?.status);
+        if (status === 429) {
+          console.error(`[Inspect] Quota exhausted for ${siteUrl} after ${inspected} inspections`);
+          skippedForQuota.unshift(...toInspect.slice(i, budget));
+          break;
+        }
+        errors.push({ page, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    const usedLast24h = usedBefore + inspected;
+    return {
+      siteUrl,
+      account,
+      requested: pages.length,
+      inspected,
+      reused: results.length - inspected,
+      skippedForQuota,
+      errors,
+      quota: { limit: DAILY_INSPECTION_QUOTA, usedLast24h, remaining: Math.max(0, DAILY_INSPECTION_QUOTA - usedLast24h) },
+      results,
+    };
+  } finally {
+    db.close();
+  }
+}
+
+function topPagesByClicks(db: Database, dateRange: string, searchType: SearchType, limit: number): string[] {
+  const { startDate, endDate } = parseDateRange(dateRange);
+  const source = aggregateSource(db, { searchType }, startDate, 'page');
+  const rows = db.query(`
+    SELECT page, SUM(clicks) as clicks
+    FROM ${source.table}
+    WHERE page IS NOT NULL AND date BETWEEN ? AND ?${source.where}
+    GROUP BY page
+    HAVING clicks > 0
+    ORDER BY clicks DESC
+    LIMIT ?
+  `, [startDate, endDate, ...source.values, limit]);
+  return rows.map(r => r.page);
+}
+
+/** SQLite datetime('now') text is UTC without a zone marker. */
+function parseSqliteTime(value: string): number {
+  return Date.parse(value.replace(' ', 'T') + 'Z');
+}
@@ -1,12 +1,16 @@
 import { existsSync } from 'fs';
 import { join } from 'path';
-import { GscClient } from '../core/GscClient.js';
 import { Database } from '../core/Database.js';
+import type { GscAccounts } from '../core/credentials.js';
 import type { PropertyStatus } from '../types/index.js';
 import { sanitizeSiteUrl, getDataDir } from './helpers.js';
 
-export async function listProperties(gscClient: GscClient): Promise<PropertyStatus[]> {
-  const properties = await gscClient.listProperties();
+/**
+ * Properties visible to any configured account, with the account that syncs
+ * each one, every identity that can see it, and local sync status.
+ */
+export async function listProperties(accounts: GscAccounts): Promise<PropertyStatus[]> {
+  const properties = await accounts.listProperties();
   const dataDir = getDataDir();
   const results: PropertyStatus[] = [];
 
@@ -30,6 +34,8 @@ export async function listProperties(gscClient: GscClient): Promise<PropertyStat
     results.push({
       siteUrl: prop.siteUrl,
       permissionLevel: prop.permissionLevel,
+      account: prop.account,
+      identities: prop.identities,
       lastSyncedAt,
       rowCount,
       dbPath: existsSync(dbPath) ? dbPath : null,
@@ -0,0 +1,46 @@
+import type { PositionMethod } from '../types/index.js';
+
+/**
+ * Shared SQL for derived metrics, so every tool reports CTR and position
+ * the way Search Console does: from summed clicks and impressions rather
+ * than averages of per-row ratios. Each row's position is already an
+ * impression-weighted average, so weighting by impressions again gives the
+ * property-level figure GSC shows.
+ */
+
+export function ctrSQL(): string {
+  return 'ROUND(CAST(SUM(clicks) AS REAL) / NULLIF(SUM(impressions), 0), 4)';
+}
+
+/** CTR over rows in one period; binds one `date BETWEEN ? AND ?` pair twice. */
+export function periodCtrSQL(): string {
+  return 'ROUND(CAST(SUM(CASE WHEN date BETWEEN ? AND ? THEN clicks ELSE 0 END) AS REAL) / '
+    + 'NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END), 0), 4)';
+}
+
+/** Unrounded average position, for bucketing and comparisons. */
+export function rawPositionSQL(method: PositionMethod = 'weighted'): string {
+  return method === 'simple'
+    ? 'AVG(position)'
+    : 'SUM(position * impressions) / NULLIF(SUM(impressions), 0)';
+}
+
+export function positionSQL(method: PositionMethod = 'weighted'): string {
+  return `ROUND(${rawPositionSQL(method)}, 1)`;
+}
+
+/** Average position over rows in one period; bind with periodPositionParams(). */
+export function periodPositionSQL(method: PositionMethod = 'weighted'): string {
+  return method === 'simple'
+    ? 'ROUND(AVG(CASE WHEN date BETWEEN ? AND ? THEN position ELSE NULL END), 1)'
+    : 'ROUND(SUM(CASE WHEN date BETWEEN ? AND ? THEN position * impressions ELSE 0 END) / '
+      + 'NULLIF(SUM(CASE WHEN date BETWEEN ? AND ? THEN impressions ELSE 0 END), 0), 1)';
+}
+
+export function periodPositionParams(
+  method: PositionMethod = 'weighted',
+  period: { startDate: string; endDate: string }
+): string[] {
+  const pair = [period.startDate, period.endDate];
+  return method === 'simple' ? pair : [...pair, ...pair];
+}
@@ -0,0 +1,68 @@
+import { basename } from 'path';
+import { Database } from '../core/Database.js';
+import { LATEST_VERSION } from '../core/migrations.js';
+import { getDataDir, listDbPaths } from './helpers.js';
+
+export interface DatabaseMigrationReport {
+  file: string;
+  status: 'migrated' | 'current' | 'failed';
+  fromVersion: number | null;
+  toVersion: number | null;
+  applied: string[];
+  backupPath: string | null;
+  /** File size in bytes before and after migrating, when anything was applied. */
+  sizeBefore: number | null;
+  sizeAfter: number | null;
+  error?: string;
+}
+
+export interface MigrateDatabasesResult {
+  dataDir: string;
+  latestVersion: number;
+  databases: DatabaseMigrationReport[];
+}
+
+/**
+ * Open every property database in the data directory, which applies any
+ * pending migrations, and report what changed. One failing file does not
+ * stop the others.
+ */
+export function migrateDatabases(): MigrateDatabasesResult {
+  const databases: DatabaseMigrationReport[] = [];
+
+  for (const dbPath of listDbPaths()) {
+    const file = basename(dbPath);
+    try {
+      const db = new Database(dbPath);
+      try {
+        const result = db.getMigrationResult();
+        databases.push({
+          file,
+          status: result.applied.length > 0 ? 'migrated' : 'current',
+          fromVersion: result.fromVersion,
+          toVersion: result.toVersion,
+          applied: result.applied,
+          backupPath: result.backupPath,
+          sizeBefore: result.sizeBefore,
+          sizeAfter: result.sizeAfter,
+        });
+      } finally {
+        db.close();
+      }
+    } catch (err) {
+      databases.push({
+        file,
+        status: 'failed',
+        fromVersion: null,
+        toVersion: null,
+        applied: [],
+        backupPath: null,
+        sizeBefore: null,
+        sizeAfter: null,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
+  return { dataDir: getDataDir(), latestVersion: LATEST_VERSION, databases };
+}
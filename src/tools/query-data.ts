@@ -1,32 +1,58 @@
 import { existsSync } from 'fs';
 import { Database } from '../core/Database.js';
 import { getDbPath } from './helpers.js';
+import { listArchiveMonths } from '../core/archive.js';
+import { loadArchivedRows, monthRange } from './restore-archive.js';
 
 export interface QueryDataArgs {
   siteUrl: string;
   sql: string;
   params?: any[];
+  /**
+   * Archived months (YYYY-MM) the query reads as search_analytics_archive.
+   * They go into a temporary table for this query only, so it sees just
+   * these months and the database is left unchanged.
+   */
+  archiveMonths?: string[];
 }
 
 export interface QueryDataResult {
   columns: string[];
   rows: any[];
   rowCount: number;
+  /** Rows loaded from archive files for this query, when archiveMonths was given. */
+  archiveRowsRestored?: number;
 }
 
-export function queryData(args: QueryDataArgs): QueryDataResult {
-  const { siteUrl, sql, params = [] } = args;
+export async function queryData(args: QueryDataArgs): Promise<QueryDataResult> {
+  const { siteUrl, sql, params = [], archiveMonths = [] } = args;
   const dbPath = getDbPath(siteUrl);
 
   if (!existsSync(dbPath)) {
     throw new Error(`No database found for "${siteUrl}". Run sync_gsc_data first.`);
   }
+  const ranges = archiveMonths.map(monthRange);
 
   const db = new Database(dbPath);
   try {
+    let archiveRowsRestored = 0;
+    if (archiveMonths.length > 0) {
+      const available = new Set(listArchiveMonths(dbPath));
+      db.useTemporaryArchive();
+      for (const [i, month] of archiveMonths.entries()) {
+        if (!available.has(month)) continue;
+        archiveRowsRestored += await loadArchivedRows(db, dbPath, [month], ranges[i].startDate, ranges[i].endDate);
+      }
+    }
+
     const rows = db.executeReadOnlyQuery(sql, params);
     const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
-    return { columns, rows, rowCount: rows.length };
+    return {
+      columns,
+      rows,
+      rowCount: rows.length,
+      ...(archiveMonths.length > 0 ? { archiveRowsRestored } : {}),
+    };
   } finally {
     db.close();
   }
@@ -0,0 +1,75 @@
+import { existsSync } from 'fs';
+import { basename } from 'path';
+import { Database } from '../core/Database.js';
+import { ROLLUP_DIMENSIONS, ROLLUP_GRAINS, rollupTable } from '../core/rollups.js';
+import { getDbPath, listDbPaths } from './helpers.js';
+
+export interface RollupRebuildReport {
+  file: string;
+  status: 'rebuilt' | 'failed';
+  /** Row count of each rollup table after the rebuild. */
+  tables: Record<string, number>;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Recompute the rollup tables from search_analytics for one property, or
+ * every database in the data directory. Use after editing
+ * search_analytics by hand, or to build rollups for an upgraded database.
+ * One failing file does not stop the others.
+ */
+export function rebuildRollups(siteUrl?: string): RollupRebuildReport[] {
+  let dbPaths: string[];
+  if (siteUrl) {
+    const dbPath = getDbPath(siteUrl);
+    if (!existsSync(dbPath)) {
+      throw new Error(`No database found for "${siteUrl}". Run sync_gsc_data first.`);
+    }
+    dbPaths = [dbPath];
+  } else {
+    dbPaths = listDbPaths();
+  }
+
+  return dbPaths.flatMap(dbPath => rebuildDatabase(dbPath, false) ?? []);
+}
+
+/**
+ * Build rollups only for databases that don't have them yet, such as ones
+ * upgraded from an older version. The daemon runs this at startup, where
+ * no tool call is waiting on it.
+ */
+export function buildMissingRollups(): RollupRebuildReport[] {
+  return listDbPaths().flatMap(dbPath => rebuildDatabase(dbPath, true) ?? []);
+}
+
+// --- Private ---
+
+function rebuildDatabase(dbPath: string, onlyMissing: boolean): RollupRebuildReport | null {
+  const start = Date.now();
+  try {
+    const db = new Database(dbPath);
+    try {
+      if (onlyMissing && db.rollupsReady()) return null;
+      db.rebuildRollups();
+      const tables: Record<string, number> = {};
+      for (const dimension of ROLLUP_DIMENSIONS) {
+        for (const grain of ROLLUP_GRAINS) {
+          const table = rollupTable(dimension, grain);
+          tables[table] = db.queryOne(`SELECT COUNT(*) as count FROM ${table}`).count;
+        }
+      }
+      return { file: basename(dbPath), status: 'rebuilt' as const, tables, durationMs: Date.now() - start };
+    } finally {
+      db.close();
+    }
+  } catch (err) {
+    return {
+      file: basename(dbPath),
+      status: 'failed' as const,
+      tables: {},
+      durationMs: Date.now() - start,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    };
+  }
+}
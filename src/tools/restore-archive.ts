@@ -0,0 +1,87 @@
+import { existsSync } from 'fs';
+import { Database } from '../core/Database.js';
+import { listArchiveMonths, readArchiveMonth } from '../core/archive.js';
+import { getDbPath } from './helpers.js';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+
+export interface RestoreArchiveParams {
+  siteUrl: string;
+  startDate: string;
+  endDate: string;
+  /** Empty search_analytics_archive before loading. */
+  clear?: boolean;
+}
+
+export interface RestoreArchiveResult {
+  siteUrl: string;
+  startDate: string;
+  endDate: string;
+  /** Archive months that overlapped the range and were read. */
+  monthsRead: string[];
+  rowsRestored: number;
+  rowsCleared: number;
+  /** Rows in search_analytics_archive afterwards. */
+  tableRows: number;
+  availableMonths: string[];
+}
+
+/**
+ * Load archived rows for a date range into the search_analytics_archive
+ * table, where query_gsc_data can read them alongside search_analytics.
+ * Restoring the same range twice does not duplicate rows.
+ */
+export async function restoreArchive(params: RestoreArchiveParams): Promise<RestoreArchiveResult> {
+  const { siteUrl, startDate, endDate, clear = false } = params;
+  if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate) || startDate > endDate) {
+    throw new Error(`Invalid date range ${startDate}..${endDate}: expected YYYY-MM-DD with startDate <= endDate.`);
+  }
+  const dbPath = getDbPath(siteUrl);
+  if (!existsSync(dbPath)) {
+    throw new Error(`No database found for "${siteUrl}". Run sync_gsc_data first.`);
+  }
+
+  const availableMonths = listArchiveMonths(dbPath);
+  const monthsRead = availableMonths.filter(month => month >= startDate.slice(0, 7) && month <= endDate.slice(0, 7));
+
+  const db = new Database(dbPath);
+  try {
+    const rowsCleared = clear ? db.clearArchivedRows() : 0;
+    const rowsRestored = await loadArchivedRows(db, dbPath, monthsRead, startDate, endDate);
+    const tableRows = db.queryOne('SELECT COUNT(*) as count FROM search_analytics_archive').count;
+    return { siteUrl, startDate, endDate, monthsRead, rowsRestored, rowsCleared, tableRows, availableMonths };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Stream archived months into search_analytics_archive on this connection,
+ * keeping rows dated startDate..endDate. Returns the number of rows loaded.
+ */
+export async function loadArchivedRows(
+  db: Database,
+  dbPath: string,
+  months: string[],
+  startDate: string,
+  endDate: string
+): Promise<number> {
+  let rowsLoaded = 0;
+  for (const month of months) {
+    for await (const batch of readArchiveMonth(dbPath, month)) {
+      rowsLoaded += db.insertArchivedRows(batch.filter(row => row.date >= startDate && row.date <= endDate));
+    }
+  }
+  return rowsLoaded;
+}
+
+/** First and last day of a YYYY-MM month. */
+export function monthRange(month: string): { startDate: string; endDate: string } {
+  if (!MONTH_PATTERN.test(month)) {
+    throw new Error(`Invalid archive month "${month}": expected YYYY-MM.`);
+  }
+  const end = new Date(`${month}-01T00:00:00Z`);
+  end.setUTCMonth(end.getUTCMonth() + 1, 0);
+  return { startDate: `${month}-01`, endDate: end.toISOString().slice(0, 10) };
+}
@@ -0,0 +1,174 @@
+import { existsSync, readFileSync } from 'fs';
+import { gunzipSync } from 'zlib';
+import { Database } from '../core/Database.js';
+import type { GscAccounts } from '../core/credentials.js';
+import { getDbPath, parseDateRange } from './helpers.js';
+import { aggregateSource } from './totals.js';
+import type { SearchType, SitemapSnapshot } from '../types/index.js';
+
+const DEFAULT_LIST_LIMIT = 100;
+
+export interface SitemapCoverageParams {
+  siteUrl: string;
+  /** Local sitemap XML files (.xml or .xml.gz) or plain-text URL lists. */
+  sitemapFiles?: string[];
+  /** URLs to treat as the sitemap, alongside any files. */
+  urls?: string[];
+  dateRange?: string;
+  searchType?: SearchType;
+  /** Fetch the Sitemaps API now instead of relying on the last sync's snapshot. */
+  refresh?: boolean;
+  limit?: number;
+}
+
+export interface SitemapStatus {
+  path: string;
+  type: string | null;
+  isSitemapsIndex: boolean;
+  isPending: boolean;
+  lastSubmitted: string | null;
+  lastDownloaded: string | null;
+  warnings: number;
+  errors: number;
+  submitted: number;
+  indexed: number;
+  capturedAt: string;
+  /** Counts from each snapshot in the period, oldest first. */
+  history: Array<{ capturedAt: string; submitted: number; indexed: number }>;
+}
+
+export interface SitemapCoverage {
+  sitemapUrls: number;
+  withImpressions: number;
+  /** Sitemap URLs with no impressions in the period. */
+  zeroImpressions: { count: number; urls: string[] };
+  /** Pages with clicks in the period that no sitemap lists. */
+  trafficNotInSitemap: {
+    count: number;
+    clicks: number;
+    pages: Array<{ page: string; clicks: number; impressions: number }>;
+  };
+}
+
+export interface SitemapCoverageResult {
+  siteUrl: string;
+  period: { startDate: string; endDate: string };
+  searchType: SearchType;
+  sitemaps: SitemapStatus[];
+  /** Null when no sitemap files or URLs were given. */
+  coverage: SitemapCoverage | null;
+}
+
+/**
+ * Sitemap health from the stored Sitemaps API snapshots, and, given the
+ * sitemap's URLs, how they line up with traffic: listed URLs that never
+ * got an impression, and pages earning clicks that no sitemap lists.
+ *
+ * Traffic comes from the page totals table when it covers the period, so
+ * pages whose clicks all come from anonymized queries still count.
+ */
+export async function sitemapCoverage(accounts: GscAccounts, params: SitemapCoverageParams): Promise<SitemapCoverageResult> {
+  const { siteUrl, dateRange = '3m', searchType = 'web', limit = DEFAULT_LIST_LIMIT } = params;
+  const dbPath = getDbPath(siteUrl);
+  if (!existsSync(dbPath)) {
+    throw new Error(`No database found for "${siteUrl}". Run sync_gsc_data first.`);
+  }
+
+  // Read the files before any API call so a bad path fails fast
+  const listed = new Set<string>(params.urls?.map(url => url.trim()).filter(Boolean) ?? []);
+  for (const file of params.sitemapFiles ?? []) {
+    for (const url of readSitemapUrls(file)) listed.add(url);
+  }
+
+  const refreshed = params.refresh
+    ? await (await accounts.accountFor(siteUrl)).client.listSitemaps(siteUrl)
+    : null;
+
+  const { startDate, endDate } = parseDateRange(dateRange);
+  const db = new Database(dbPath);
+
+  try {
+    if (refreshed) db.insertSitemapSnapshot(refreshed);
+    const sitemaps = summariseSnapshots(db.getSitemapSnapshots(startDate));
+
+    let coverage: SitemapCoverage | null = null;
+    if (listed.size > 0) {
+      const source = aggregateSource(db, { searchType }, startDate, 'page');
+      const traffic = db.query(`
+        SELECT page, SUM(clicks) as clicks, SUM(impressions) as impressions
+        FROM ${source.table}
+        WHERE page IS NOT NULL AND date BETWEEN ? AND ?${source.where}
+        GROUP BY page
+        HAVING impressions > 0
+        ORDER BY clicks DESC, impressions DESC
+      `, [startDate, endDate, ...source.values]) as Array<{ page: string; clicks: number; impressions: number }>;
+
+      const seen = new Set(traffic.map(row => row.page));
+      const zeroImpressions = [...listed].filter(url => !seen.has(url)).sort();
+      const unlisted = traffic.filter(row => row.clicks > 0 && !listed.has(row.page));
+
+      coverage = {
+        sitemapUrls: listed.size,
+        withImpressions: listed.size - zeroImpressions.length,
+        zeroImpressions: { count: zeroImpressions.length, urls: zeroImpressions.slice(0, limit) },
+        trafficNotInSitemap: {
+          count: unlisted.length,
+          clicks: unlisted.reduce((sum, row) => sum + row.clicks, 0),
+          pages: unlisted.slice(0, limit),
+        },
+      };
+    }
+
+    return { siteUrl, period: { startDate, endDate }, searchType, sitemaps, coverage };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * URLs from a local sitemap: the <loc> entries of an XML urlset (optionally
+ * gzipped), or one URL per line for a plain list. Sitemap index files are
+ * rejected; pass the child sitemaps instead.
+ */
+export function readSitemapUrls(file: string): string[] {
+  if (!existsSync(file)) {
+    throw new Error(`Sitemap file not found: ${file}`);
+  }
+  const raw = readFileSync(file);
+  const text = (file.endsWith('.gz') ? gunzipSync(raw) : raw).toString('utf-8').trim();
+
+  if (!text.startsWith('<')) {
+    return text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  }
+  if (/<sitemapindex[\s>]/.test(text)) {
+    throw new Error(`${file} is a sitemap index. Pass the sitemaps it lists in sitemapFiles instead.`);
+  }
+  return [...text.matchAll(/<loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/loc>/g)].map(m => decodeXml(m[1].trim()));
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/** Latest snapshot of each sitemap, with its counts over time. */
+function summariseSnapshots(snapshots: SitemapSnapshot[]): SitemapStatus[] {
+  const byPath = new Map<string, SitemapSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const list = byPath.get(snapshot.path) ?? [];
+    list.push(snapshot);
+    byPath.set(snapshot.path, list);
+  }
+
+  return [...byPath.values()].map(list => {
+    const { contents: _contents, ...latest } = list[list.length - 1];
+    return {
+      ...latest,
+      history: list.map(s => ({ capturedAt: s.capturedAt, submitted: s.submitted, indexed: s.indexed })),
+    };
+  });
+}
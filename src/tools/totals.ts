@@ -0,0 +1,175 @@
+import { Database, TOTALS_TABLES } from '../core/Database.js';
+import { rollupTable, tileRange, type RollupDimension, type RollupGrain } from '../core/rollups.js';
+import type { PositionMethod, SearchType, TotalsDimension } from '../types/index.js';
+
+export interface AggregateFilters {
+  searchType?: SearchType;
+  pageFilter?: string;
+  queryFilter?: string;
+  device?: string;
+  country?: string;
+}
+
+export interface AggregateSource {
+  /** Table name, or a parenthesised subquery with the same columns. */
+  table: string;
+  /** True when reading a totals table rather than query-level rows. */
+  fromTotals: boolean;
+  /** " AND ..." clause applying the filters to that table. */
+  where: string;
+  values: any[];
+}
+
+// search_analytics plus the pruned long tail, in search_analytics columns
+const WITH_REMAINDER = `(
+  SELECT date, query, page, device, country, search_appearance, search_type, data_state,
+    clicks, impressions, ctr, position
+  FROM search_analytics
+  UNION ALL
+  SELECT date, NULL, page, NULL, country, NULL, search_type, 'final',
+    clicks, impressions, COALESCE(CAST(clicks AS REAL) / NULLIF(impressions, 0), 0), position
+  FROM longtail_remainder
+)`;
+
+/**
+ * Pick the table that answers a property-level aggregate.
+ *
+ * Query-level rows in search_analytics leave out anonymized queries, so
+ * totals tables are preferred whenever they can express the filters: at
+ * most one of page/device/country may be used (including the groupBy
+ * dimension), and never a query filter. Falls back to search_analytics when
+ * the range starts before totals were first synced, together with the
+ * long-tail remainder of pruned rows so old totals don't shrink. Remainder
+ * rows have no query or device, so query and device filters leave them out.
+ */
+export function aggregateSource(
+  db: Database,
+  filters: AggregateFilters,
+  startDate: string,
+  groupBy?: Exclude<TotalsDimension, 'date'>
+): AggregateSource {
+  const dims = new Set<TotalsDimension>();
+  if (groupBy) dims.add(groupBy);
+  if (filters.pageFilter) dims.add('page');
+  if (filters.device) dims.add('device');
+  if (filters.country) dims.add('country');
+
+  const totalsUsable = !filters.queryFilter && dims.size <= 1 && totalsCover(db, filters.searchType || 'web', startDate);
+  const table = totalsUsable
+    ? TOTALS_TABLES[dims.size === 0 ? 'date' : [...dims][0]]
+    : db.hasLongTailRemainder() ? WITH_REMAINDER : 'search_analytics';
+
+  const clauses: string[] = ['search_type = ?'];
+  const values: any[] = [filters.searchType || 'web'];
+  if (filters.pageFilter) {
+    clauses.push('page LIKE ?');
+    values.push(`%${filters.pageFilter}%`);
+  }
+  if (filters.queryFilter) {
+    clauses.push('query LIKE ?');
+    values.push(`%${filters.queryFilter}%`);
+  }
+  if (filters.device) {
+    clauses.push('device = ?');
+    values.push(filters.device);
+  }
+  if (filters.country) {
+    clauses.push('country = ?');
+    values.push(filters.country);
+  }
+
+  return { table, fromTotals: totalsUsable, where: ' AND ' + clauses.join(' AND '), values };
+}
+
+/**
+ * Share of the totals that query-level rows account for. The remainder is
+ * traffic GSC reports only as anonymized queries. Null when the totals
+ * source is itself query-level.
+ */
+export function queryCoverage(
+  db: Database,
+  source: AggregateSource,
+  filters: AggregateFilters,
+  startDate: string,
+  endDate: string,
+  totals: { clicks: number; impressions: number }
+): { clicksPct: number | null; impressionsPct: number | null } {
+  if (!source.fromTotals) return { clicksPct: null, impressionsPct: null };
+
+  const queryLevel = aggregateSource(db, { ...filters, queryFilter: undefined }, startDate);
+  const row = db.queryOne(`
+    SELECT COALESCE(SUM(clicks), 0) as clicks, COALESCE(SUM(impressions), 0) as impressions
+    FROM search_analytics
+    WHERE date BETWEEN ? AND ? AND query IS NOT NULL${queryLevel.where}
+  `, [startDate, endDate, ...queryLevel.values]);
+
+  const pct = (part: number, whole: number): number | null =>
+    whole === 0 ? null : Math.round((part / whole) * 1000) / 10;
+
+  return {
+    clicksPct: pct(row.clicks, totals.clicks),
+    impressionsPct: pct(row.impressions, totals.impressions),
+  };
+}
+
+export interface RollupOptions {
+  filters?: AggregateFilters;
+  positionMethod?: PositionMethod;
+  /** Finest grain the caller groups by; 'day' when grouping by date. */
+  maxGrain?: RollupGrain;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * FROM source for per-query, page, country or device aggregates over the
+ * given date ranges, read from the coarsest rollups that tile each range
+ * exactly. Returns a table name, or a UNION ALL subquery when a range needs
+ * several grains; either way the columns match search_analytics, so the
+ * caller's SQL and date filters work unchanged.
+ *
+ * Falls back to search_analytics when the rollups aren't built, a filter
+ * touches another dimension, or positionMethod is 'simple' (a row average
+ * can't be recovered from aggregated rows).
+ */
+export function rollupSource(
+  db: Database,
+  dimension: RollupDimension,
+  ranges: Array<{ startDate: string; endDate: string }>,
+  options: RollupOptions = {}
+): string {
+  const { filters = {}, positionMethod = 'weighted', maxGrain = 'month' } = options;
+  const otherFilters = (['query', 'page', 'device', 'country'] as const).filter(dim =>
+    dim !== dimension && (dim === 'query' ? filters.queryFilter : dim === 'page' ? filters.pageFilter : filters[dim])
+  );
+  if (positionMethod === 'simple' || otherFilters.length > 0 || !db.rollupsReady()) {
+    return 'search_analytics';
+  }
+
+  const segments = ranges.flatMap(range => {
+    // Dates are inlined below, so only accept plain YYYY-MM-DD
+    if (!DATE_PATTERN.test(range.startDate) || !DATE_PATTERN.test(range.endDate)) {
+      throw new Error(`Invalid date range ${range.startDate}..${range.endDate}: expected YYYY-MM-DD.`);
+    }
+    return tileRange(range.startDate, range.endDate, maxGrain);
+  });
+  const grains = new Set(segments.map(segment => segment.grain));
+  if (grains.size <= 1) {
+    return rollupTable(dimension, segments[0]?.grain ?? 'day');
+  }
+
+  const columns = `date, ${dimension}, search_type, clicks, impressions, ctr, position`;
+  const parts = segments.map(segment =>
+    `SELECT ${columns} FROM ${rollupTable(dimension, segment.grain)} WHERE date BETWEEN '${segment.from}' AND '${segment.to}'`
+  );
+  return `(${parts.join(' UNION ALL ')})`;
+}
+
+function totalsCover(db: Database, searchType: SearchType, startDate: string): boolean {
+  const totalsStart = db.getTotalsStartDate(searchType);
+  if (!totalsStart) return false;
+  if (totalsStart <= startDate) return true;
+  // Nothing was synced before the totals began, so they still cover the range
+  const dataStart = db.getDateRange()?.minDate;
+  return !!dataStart && totalsStart <= dataStart;
+}
@@ -1,11 +1,23 @@
 // Shared TypeScript interfaces for better-search-console
 
+export type SearchType = 'web' | 'discover' | 'googleNews' | 'image' | 'video';
+
+/** 'weighted' averages position by impressions, as GSC does; 'simple' is the plain row average. */
+export type PositionMethod = 'weighted' | 'simple';
+
+/** 'fresh' rows fall on or after the API's firstIncompleteDate and will still be revised. */
+export type DataState = 'final' | 'fresh';
+
 export interface GscProperty {
   siteUrl: string;
   permissionLevel: string;
 }
 
 export interface PropertyStatus extends GscProperty {
+  /** Configured account whose credentials sync this property. */
+  account: string;
+  /** Every configured account that can see the property. */
+  identities: Array<{ account: string; identity: string; permissionLevel: string }>;
   lastSyncedAt: string | null;
   rowCount: number | null;
   dbPath: string | null;
@@ -18,6 +30,39 @@ export interface SearchAnalyticsRow {
   device: string | null;
   country: string | null;
   searchAppearance: string | null;
+  searchType: SearchType;
+  dataState: DataState;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+}
+
+/** A search_analytics row as written to a monthly archive file. */
+export interface ArchivedRow extends SearchAnalyticsRow {
+  id: number;
+}
+
+export interface SearchAppearanceRow {
+  date: string;
+  searchAppearance: string;
+  searchType: SearchType;
+  dataState: DataState;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+}
+
+/** Dimension a totals table is broken down by ('date' = property-level daily totals). */
+export type TotalsDimension = 'date' | 'page' | 'device' | 'country';
+
+export interface TotalsRow {
+  date: string;
+  /** Page, device or country value; null for daily totals. */
+  key: string | null;
+  searchType: SearchType;
+  dataState: DataState;
   clicks: number;
   impressions: number;
   ctr: number;
@@ -32,13 +77,60 @@ export interface GscApiRow {
   position: number;
 }
 
+/** Index status of one URL from the URL Inspection API. */
+export interface UrlInspectionResult {
+  /** PASS, PARTIAL, FAIL or NEUTRAL. */
+  verdict: string | null;
+  /** Human-readable status, e.g. "Submitted and indexed". */
+  coverageState: string | null;
+  indexingState: string | null;
+  robotsTxtState: string | null;
+  pageFetchState: string | null;
+  lastCrawlTime: string | null;
+  crawledAs: string | null;
+  googleCanonical: string | null;
+  userCanonical: string | null;
+  mobileUsabilityVerdict: string | null;
+  mobileUsabilityIssues: string[];
+  richResultsVerdict: string | null;
+  /** Link to the report in the Search Console UI. */
+  inspectionLink: string | null;
+}
+
+/** A stored inspection; every run adds a row, so history is kept. */
+export interface UrlInspectionRecord extends UrlInspectionResult {
+  page: string;
+  inspectedAt: string;
+}
+
+/** A sitemap as reported by the Sitemaps API. */
+export interface GscSitemap {
+  path: string;
+  type: string | null;
+  isSitemapsIndex: boolean;
+  isPending: boolean;
+  lastSubmitted: string | null;
+  lastDownloaded: string | null;
+  warnings: number;
+  errors: number;
+  /** Counts per content type (web, image, video, ...). */
+  contents: Array<{ type: string; submitted: number; indexed: number }>;
+}
+
+/** A stored sitemap snapshot; counts are summed across content types. */
+export interface SitemapSnapshot extends GscSitemap {
+  capturedAt: string;
+  submitted: number;
+  indexed: number;
+}
+
 export interface FetchOptions {
   startDate: string;
   endDate: string;
   dimensions?: string[];
   rowLimit?: number;
   dataState?: string;
-  searchType?: 'web' | 'discover' | 'googleNews' | 'image' | 'video';
+  searchType?: SearchType;
 }
 
 export interface SyncLogEntry {
@@ -51,12 +143,15 @@ export interface SyncLogEntry {
   rowsInserted: number;
   status: string;
   errorMessage: string | null;
+  /** Sync job that wrote this entry (null for entries from older versions). */
+  jobId?: string | null;
   startedAt: string;
   completedAt: string | null;
 }
 
 export interface InsightParams {
-  siteUrl: string;
+  /** Omit to run the anomalies insight across every synced property. */
+  siteUrl?: string;
   insight: string;
   dateRange?: string;
   pageFilter?: string;
@@ -67,6 +162,14 @@ export interface InsightParams {
   limit?: number;
   minClicks?: number;
   minImpressions?: number;
+  searchType?: SearchType;
+  positionMethod?: PositionMethod;
+  /** Queries to forecast in uplift_forecast, instead of the opportunities set. */
+  queries?: string[];
+  /** Positions uplift_forecast projects to. Default: [3]. */
+  targetPositions?: number[];
+  /** Whether anomalies looks at single days or whole weeks. Default: 'day'. */
+  granularity?: 'day' | 'week';
 }
 
 export interface DateRange {
@@ -88,6 +191,8 @@ export interface ComparePeriodParams {
   dimension?: string;
   limit?: number;
   pageFilter?: string;
+  searchType?: SearchType;
+  positionMethod?: PositionMethod;
 }
 
 export interface SummaryMetrics {
@@ -8,22 +8,37 @@ type ComparisonMode = 'previous_period' | 'year_over_year' | 'previous_month' |
 
 interface TrendRow { date: string; clicks: number; impressions: number; ctr: number | null; avg_position: number | null }
 
+interface ForecastDay {
+  date: string;
+  clicks: number;
+  clicksLower: number;
+  clicksUpper: number;
+  impressions: number;
+  impressionsLower: number;
+  impressionsUpper: number;
+}
+
+interface Forecast { interval: number; daily: ForecastDay[] }
+
 interface DashboardData {
   siteUrl: string;
   dateRange: string;
+  searchType?: string;
   comparisonMode?: ComparisonMode;
   matchWeekdays?: boolean;
   lastSyncedAt: string | null;
+  provisionalDates?: string[];
   period: { current: { startDate: string; endDate: string }; prior: { startDate: string; endDate: string } };
   summary: {
     current: { clicks: number; impressions: number; ctr: number; avgPosition: number };
     prior: { clicks: number; impressions: number; ctr: number; avgPosition: number };
     changes: { clicksPct: number | null; impressionsPct: number | null; ctrPct: number | null; avgPositionPct: number | null };
+    queryCoverage?: { clicksPct: number | null; impressionsPct: number | null };
   };
   dailyTrend: TrendRow[];
   priorDailyTrend?: TrendRow[];
   topQueries: Array<RowData & { query: string }>;
-  topPages: Array<RowData & { page: string }>;
+  topPages: Array<RowData & { page: string; index_status?: IndexStatus | null }>;
   countries?: Array<{ country: string; clicks: number; impressions: number; prior_clicks: number; prior_impressions: number; clicks_change_pct: number | null }>;
   rankingBuckets?: Array<{ bucket: string; count: number }>;
   newQueries?: Array<{ query: string; clicks: number; impressions: number; avg_position: number | null }>;
@@ -33,6 +48,9 @@ interface DashboardData {
     priorSummary: Array<{ segment: string; clicks: number; impressions: number }>;
     trend: Array<{ date: string; segment: string; clicks: number }>;
   } | null;
+  searchAppearance?: Array<{ search_appearance: string; clicks: number; impressions: number; prior_clicks: number; prior_impressions: number; clicks_change_pct: number | null }>;
+  forecast?: Forecast | null;
+  forecastError?: string;
 }
 
 interface RowData {
@@ -47,6 +65,8 @@ interface RowData {
   clicks_change_pct: number | null;
 }
 
+interface IndexStatus { verdict: string | null; coverageState: string | null; inspectedAt: string }
+
 // --- State ---
 let currentData: DashboardData | null = null;
 let currentSiteUrl = '';
@@ -55,6 +75,8 @@ let currentComparisonMode: ComparisonMode = 'previous_period';
 let currentMatchWeekdays = false;
 let currentSearchType: string = 'web';
 let showPriorTrend = true;
+let showForecast = false;
+const FORECAST_DAYS = 90;
 let showChangePct = true;
 let trendChart: Chart | null = null;
 const activeMetrics = { clicks: true, impressions: true, ctr: false, position: false };
@@ -81,6 +103,10 @@ app.ontoolresult = (result) => {
     currentData = data;
     currentSiteUrl = data.siteUrl;
     currentDateRange = data.dateRange;
+    currentSearchType = data.searchType || 'web';
+    // The model may have asked for a forecast already; keep the toggle in step
+    showForecast = !!data.forecast;
+    (document.getElementById('dp-forecast') as HTMLInputElement).checked = showForecast;
     renderDashboard(data);
   }
 };
@@ -97,6 +123,7 @@ function renderDashboard(data: DashboardData) {
   const domain = data.siteUrl.replace(/^sc-domain:/, '').replace(/^https?:\/\//, '').replace(/\/$/, '');
   document.getElementById('site-url')!.textContent = domain;
   setActiveDateRange(data.dateRange);
+  setActiveSearchType(data.searchType || 'web');
 
   // Site logo via logo.dev
   const logoEl = document.getElementById('site-logo') as HTMLImageElement;
@@ -110,13 +137,19 @@ function renderDashboard(data: DashboardData) {
     const syncEl = document.getElementById('sync-info')!;
     syncEl.style.display = 'inline-flex';
     document.getElementById('last-sync-date')!.textContent = formatDate(data.lastSyncedAt);
+    // GSC still revises the most recent days; say which ones are provisional
+    const provisional = data.provisionalDates || [];
+    document.getElementById('provisional-info')!.textContent = provisional.length > 0
+      ? ` · ${provisional.length} provisional day${provisional.length > 1 ? 's' : ''} from ${provisional[0]}`
+      : '';
   }
 
   // Hero metrics
   renderMetrics(data);
 
   // Chart
-  renderChart(data.dailyTrend, data.priorDailyTrend);
+  document.getElementById('dp-forecast-label')!.title = data.forecastError ?? '';
+  renderChart(data.dailyTrend, data.priorDailyTrend, data.forecast);
 
   // Tables (inline shows max 10 rows) — apply search filter
   const filteredQueries = applySearchFilter(data.topQueries, 'query');
@@ -129,6 +162,7 @@ function renderDashboard(data: DashboardData) {
   renderRankingBuckets(data);
   renderNewLost(data);
   renderBranded(data);
+  renderSearchAppearance(data);
 }
 
 function renderMetrics(data: DashboardData) {
@@ -144,17 +178,26 @@ function renderMetrics(data: DashboardData) {
   setChange('change-ctr', changes.ctrPct);
   // Position: lower is better, so invert the sentiment
   setChange('change-position', changes.avgPositionPct, true);
+
+  // Totals include anonymised queries; show how much the query tables explain
+  const coverage = data.summary.queryCoverage;
+  document.getElementById('coverage-clicks')!.textContent =
+    coverage && coverage.clicksPct != null ? `${coverage.clicksPct}% from known queries` : '';
 }
 
-function renderChart(trend: TrendRow[], priorTrend?: TrendRow[]) {
+function renderChart(trend: TrendRow[], priorTrend?: TrendRow[], forecast?: Forecast | null) {
   const canvas = document.getElementById('trend-chart') as HTMLCanvasElement;
 
   if (trendChart) {
     trendChart.destroy();
   }
 
-  const labels = trend.map(r => {
-    const d = new Date(r.date);
+  // Forecast days continue the x axis after the last day of the trend
+  const lastDate = trend.length > 0 ? trend[trend.length - 1].date : '';
+  const future = showForecast && forecast ? forecast.daily.filter(d => d.date > lastDate) : [];
+
+  const labels = [...trend.map(r => r.date), ...future.map(d => d.date)].map(date => {
+    const d = new Date(date);
     return d.toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
   });
 
@@ -321,6 +364,54 @@ function renderChart(trend: TrendRow[], priorTrend?: TrendRow[]) {
     }
   }
 
+  // Forecast: dashed line from the last actual day, over a shaded interval band
+  if (future.length > 0 && trend.length > 0) {
+    const lead: Array<number | null> = new Array(trend.length - 1).fill(null);
+    const series = [
+      { metric: 'clicks' as const, label: 'Clicks', color: cyanColor, axis: 'y' },
+      { metric: 'impressions' as const, label: 'Impressions', color: purpleColor, axis: 'y1' },
+    ];
+    for (const { metric, label, color, axis } of series) {
+      if (!activeMetrics[metric]) continue;
+      const last = trend[trend.length - 1][metric];
+      const lowerKey = `${metric}Lower` as const;
+      const upperKey = `${metric}Upper` as const;
+      datasets.push({
+        label: `${label} forecast low`,
+        data: [...lead, last, ...future.map(d => d[lowerKey])],
+        borderWidth: 0,
+        fill: false,
+        tension: 0.3,
+        pointRadius: 0,
+        pointHitRadius: 0,
+        yAxisID: axis,
+      });
+      datasets.push({
+        label: `${label} forecast high`,
+        data: [...lead, last, ...future.map(d => d[upperKey])],
+        borderWidth: 0,
+        backgroundColor: color + '26', // 15% opacity
+        fill: '-1',
+        tension: 0.3,
+        pointRadius: 0,
+        pointHitRadius: 0,
+        yAxisID: axis,
+      });
+      datasets.push({
+        label: `${label} forecast`,
+        data: [...lead, last, ...future.map(d => d[metric])],
+        borderColor: color,
+        borderDash: [4, 4],
+        fill: false,
+        tension: 0.3,
+        pointRadius: 0,
+        pointHitRadius: 8,
+        borderWidth: 1.5,
+        yAxisID: axis,
+      });
+    }
+  }
+
   if (datasets.length === 0) {
     // Nothing to render
     return;
@@ -338,7 +429,14 @@ function renderChart(trend: TrendRow[], priorTrend?: TrendRow[]) {
           display: true,
           position: 'top',
           align: 'end',
-          labels: { color: getCSSVar('--text-secondary') || '#5f6672', boxWidth: 12, padding: 16, font: { size: 12 } },
+          labels: {
+            color: getCSSVar('--text-secondary') || '#5f6672',
+            boxWidth: 12,
+            padding: 16,
+            font: { size: 12 },
+            // The band edges are drawn as datasets but are not series of their own
+            filter: (item) => !/ forecast (low|high)$/.test(item.text),
+          },
         },
         tooltip: {
           backgroundColor: getCSSVar('--chart-tooltip-bg') || '#ffffff',
@@ -348,6 +446,7 @@ function renderChart(trend: TrendRow[], priorTrend?: TrendRow[]) {
           bodyColor: getCSSVar('--chart-tooltip-body') || '#5f6672',
           padding: 10,
           cornerRadius: 6,
+          filter: (item) => item.raw != null,
           callbacks: {
             label: (ctx) => {
               const label = ctx.dataset.label || '';
@@ -364,6 +463,15 @@ function renderChart(trend: TrendRow[], priorTrend?: TrendRow[]) {
   });
 }
 
+/** Index status from the page's latest inspect_urls run; nothing if never inspected. */
+function indexBadge(status: IndexStatus | null | undefined): string {
+  if (!status) return '';
+  const kind = status.verdict === 'PASS' ? 'indexed' : status.verdict === 'FAIL' ? 'not-indexed' : 'partial';
+  const label = kind === 'indexed' ? 'Indexed' : kind === 'not-indexed' ? 'Not indexed' : 'Check';
+  const title = `${status.coverageState ?? status.verdict ?? 'Unknown'} (inspected ${status.inspectedAt.slice(0, 10)})`;
+  return `<span class="index-badge ${kind}" title="${escapeHtml(title)}">${label}</span>`;
+}
+
 function renderTable(tbodyId: string, rows: any[], nameField: string, filter = 'all') {
   const tbody = document.getElementById(tbodyId)!;
   let filtered = rows;
@@ -388,7 +496,7 @@ function renderTable(tbodyId: string, rows: any[], nameField: string, filter = '
     const changeText = changePct == null ? '—' : arrow + (changePct > 0 ? '+' : '') + changePct + '%';
 
     return `<tr>
-      <td title="${escapeHtml(name)}">${escapeHtml(displayName)}</td>
+      <td title="${escapeHtml(name)}">${nameField === 'page' ? indexBadge(row.index_status) : ''}${escapeHtml(displayName)}</td>
       <td class="num">${formatNumber(row.clicks)}</td>
       <td class="num">${formatNumber(row.impressions)}</td>
       <td class="num"><span class="change ${changeClass}">${changeText}</span></td>
@@ -447,7 +555,17 @@ document.getElementById('dp-match-weekdays')!.addEventListener('change', async (
 // Prior trend line checkbox (client-side only)
 document.getElementById('dp-prior-trend')!.addEventListener('change', (e) => {
   showPriorTrend = (e.target as HTMLInputElement).checked;
-  if (currentData) renderChart(currentData.dailyTrend, currentData.priorDailyTrend);
+  if (currentData) renderChart(currentData.dailyTrend, currentData.priorDailyTrend, currentData.forecast);
+});
+
+// Forecast checkbox — fetched from the server the first time, then client-side
+document.getElementById('dp-forecast')!.addEventListener('change', async (e) => {
+  showForecast = (e.target as HTMLInputElement).checked;
+  if (showForecast && currentData && !currentData.forecast) {
+    await fetchDashboard();
+  } else if (currentData) {
+    renderChart(currentData.dailyTrend, currentData.priorDailyTrend, currentData.forecast);
+  }
 });
 
 // Show change % checkbox (client-side only)
@@ -496,6 +614,8 @@ async function fetchDashboard() {
         dateRange: currentDateRange,
         comparisonMode: currentComparisonMode,
         matchWeekdays: currentMatchWeekdays,
+        searchType: currentSearchType,
+        ...(showForecast ? { forecastDays: FORECAST_DAYS } : {}),
       },
     });
     const data = result.structuredContent as DashboardData;
@@ -520,6 +640,12 @@ function setActiveDateRange(range: string) {
   });
 }
 
+function setActiveSearchType(type: string) {
+  document.querySelectorAll('#search-type-selector .st-btn').forEach(btn => {
+    btn.classList.toggle('active', (btn as HTMLElement).dataset.type === type);
+  });
+}
+
 // --- Metric Toggle Buttons ---
 document.getElementById('metric-toggles')!.addEventListener('click', (e) => {
   const btn = (e.target as HTMLElement).closest('.toggle-btn') as HTMLButtonElement | null;
@@ -531,7 +657,7 @@ document.getElementById('metric-toggles')!.addEventListener('click', (e) => {
   activeMetrics[metric] = !activeMetrics[metric];
   btn.classList.toggle('active', activeMetrics[metric]);
 
-  renderChart(currentData.dailyTrend, currentData.priorDailyTrend);
+  renderChart(currentData.dailyTrend, currentData.priorDailyTrend, currentData.forecast);
 });
 
 // --- Tab Filtering ---
@@ -749,6 +875,35 @@ document.getElementById('newlost-tabs')!.addEventListener('click', (e) => {
   renderNewLostTable(tab === 'lost' ? (currentData.lostQueries || []) : (currentData.newQueries || []));
 });
 
+// --- Search Appearance ---
+function renderSearchAppearance(data: DashboardData) {
+  const row = document.getElementById('appearance-row')!;
+  if (!data.searchAppearance || data.searchAppearance.length === 0) {
+    row.style.display = 'none';
+    return;
+  }
+  row.style.display = 'grid';
+
+  const tbody = document.getElementById('appearance-body')!;
+  tbody.innerHTML = data.searchAppearance.map(r => {
+    const changePct = r.clicks_change_pct;
+    const changeClass = changePct == null ? 'neutral' : changePct > 0 ? 'positive' : changePct < 0 ? 'negative' : 'neutral';
+    const changeText = changePct == null ? '—' : (changePct > 0 ? '+' : '') + changePct + '%';
+    return `<tr>
+      <td title="${escapeHtml(r.search_appearance)}">${escapeHtml(formatAppearance(r.search_appearance))}</td>
+      <td class="num">${formatNumber(r.clicks)}</td>
+      <td class="num">${formatNumber(r.impressions)}</td>
+      <td class="num"><span class="change ${changeClass}">${changeText}</span></td>
+    </tr>`;
+  }).join('');
+}
+
+/** "FAQ_RICH_RESULT" → "Faq rich result" */
+function formatAppearance(value: string): string {
+  const words = value.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
 // --- Branded Split ---
 let brandedChart: Chart | null = null;
 
@@ -7,6 +7,7 @@ Chart.register(...registerables);
 interface PropertyOverview {
   siteUrl: string;
   domain: string;
+  account?: string;
   lastSyncedAt: string | null;
   current: { clicks: number; impressions: number; ctr: number; avgPosition: number };
   changes: { clicksPct: number | null; impressionsPct: number | null; ctrPct: number | null; avgPositionPct: number | null };
@@ -78,7 +79,9 @@ function render(data: OverviewData) {
   sparkCharts.forEach(c => c.destroy());
   sparkCharts.clear();
 
-  content.innerHTML = `<div class="cards-grid">${data.properties.map((p, i) => renderCard(p, i)).join('')}</div>`;
+  // Only worth labelling accounts when there is more than one
+  const showAccount = new Set(data.properties.map(p => p.account)).size > 1;
+  content.innerHTML = `<div class="cards-grid">${data.properties.map((p, i) => renderCard(p, i, showAccount)).join('')}</div>`;
 
   // Render sparklines after DOM is ready
   data.properties.forEach((p, i) => {
@@ -98,13 +101,14 @@ function render(data: OverviewData) {
   });
 }
 
-function renderCard(p: PropertyOverview, index: number): string {
+function renderCard(p: PropertyOverview, index: number, showAccount: boolean): string {
   return `
     <div class="property-card" data-site-url="${escapeHtml(p.siteUrl)}">
       <div class="card-header">
         <div style="display:flex;align-items:center;gap:8px;overflow:hidden">
           <img src="https://img.logo.dev/${escapeHtml(p.domain)}?token=pk_DkUq1s2HT-q1JYXa2MuOaw&size=32&format=png" alt="" style="width:20px;height:20px;border-radius:4px;object-fit:contain;flex-shrink:0" onerror="this.style.display='none'" />
           <span class="card-domain">${escapeHtml(p.domain)}</span>
+          ${showAccount && p.account ? `<span class="card-account">${escapeHtml(p.account)}</span>` : ''}
         </div>
         <span class="card-arrow">\u2192</span>
       </div>
@@ -7,12 +7,13 @@ interface SyncJobResult {
   rowsFetched: number;
   rowsInserted: number;
   durationMs: number;
+  account?: string;
   error?: string;
 }
 
 interface SyncStatus {
   jobId: string;
-  status: 'queued' | 'syncing' | 'completed' | 'failed' | 'cancelled';
+  status: 'queued' | 'syncing' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
   totalProperties: number;
   completedProperties: number;
   currentProperty: string | null;
@@ -21,6 +22,13 @@ interface SyncStatus {
   apiCallsMade: number;
   startedAt: string;
   elapsedMs: number;
+  throttle?: {
+    waitMs: number;
+    concurrency: number;
+    maxConcurrency: number;
+    inFlight: number;
+    pausedUntil: string | null;
+  };
   results: SyncJobResult[];
   error?: string;
 }
@@ -127,7 +135,7 @@ function render(data: SyncStatus): void {
     $currentSection.style.display = 'block';
     $currentLabel.textContent = extractDomain(data.currentProperty);
     $rowsCount.textContent = formatNumber(data.rowsFetched) + ' rows';
-    $apiCalls.textContent = `${data.apiCallsMade} API calls`;
+    $apiCalls.textContent = `${data.apiCallsMade} API calls` + formatThrottle(data.throttle);
 
     // Progress bar: use estimated total if available
     if (data.estimatedTotalRows && data.estimatedTotalRows > 0) {
@@ -150,7 +158,7 @@ function render(data: SyncStatus): void {
       const domain = extractDomain(r.siteUrl);
       const rows = r.rowsFetched > 0 ? formatNumber(r.rowsFetched) + ' rows' : '';
       const duration = r.durationMs > 0 ? formatDuration(r.durationMs) : '';
-      const meta = [rows, duration].filter(Boolean).join(' / ');
+      const meta = [rows, duration, r.account].filter(Boolean).join(' / ');
       return `
         <div class="result-row">
           <span class="domain">${domain}</span>
@@ -174,6 +182,16 @@ function render(data: SyncStatus): void {
 }
 
 // --- Helpers ---
+function formatThrottle(throttle: SyncStatus['throttle']): string {
+  if (!throttle) return '';
+  const parts: string[] = [];
+  if (throttle.waitMs >= 1000) parts.push(`throttled ${formatDuration(throttle.waitMs)}`);
+  if (throttle.concurrency < throttle.maxConcurrency) {
+    parts.push(`concurrency ${throttle.concurrency}/${throttle.maxConcurrency}`);
+  }
+  return parts.map(p => ` · ${p}`).join('');
+}
+
 function formatDuration(ms: number): string {
   const secs = Math.floor(ms / 1000);
   if (secs < 60) return `${secs}s`;